@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, describe, it } from 'node:test';
+import { describeEncodedBody, encodeRequestBody, resolveFileInput, uploadPolicyFromEnv, withFileInputs } from './bodies.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bodies-test-'));
+const root = path.join(dir, 'uploads');
+fs.mkdirSync(root);
+fs.writeFileSync(path.join(root, 'items.csv'), 'sku,qty\nA1,2\n');
+fs.writeFileSync(path.join(dir, 'secret.txt'), 'do not send');
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe('upload policy', () => {
+  it('requires SCANPOWER_UPLOAD_ROOT for local paths over HTTP', () => {
+    assert.deepEqual(uploadPolicyFromEnv('stdio'), { allowPaths: true, root: undefined });
+    assert.deepEqual(uploadPolicyFromEnv('http'), { allowPaths: false, root: undefined });
+    process.env.SCANPOWER_UPLOAD_ROOT = root;
+    assert.deepEqual(uploadPolicyFromEnv('http'), { allowPaths: true, root });
+    delete process.env.SCANPOWER_UPLOAD_ROOT;
+  });
+
+  it('keeps local paths inside the upload root', () => {
+    const policy = { allowPaths: true, root };
+    assert.equal(resolveFileInput('items.csv', 'file', policy).contentType, 'text/csv');
+    assert.equal(resolveFileInput({ path: path.join(root, 'items.csv') }, 'file', policy).data.toString(), 'sku,qty\nA1,2\n');
+    assert.throws(() => resolveFileInput('../secret.txt', 'file', policy), /outside SCANPOWER_UPLOAD_ROOT/);
+    assert.throws(() => resolveFileInput(path.join(dir, 'secret.txt'), 'file', policy), /outside SCANPOWER_UPLOAD_ROOT/);
+    assert.throws(() => resolveFileInput({ path: 'items.csv' }, 'file', { allowPaths: false }), /Local file paths are disabled/);
+  });
+
+  it('accepts base64 content and data: URLs without touching the disk', () => {
+    const policy = { allowPaths: false };
+    assert.equal(resolveFileInput('base64:aGVsbG8=', 'file', policy).data.toString(), 'hello');
+    assert.deepEqual(resolveFileInput('data:text/csv;base64,YSxi', 'file', policy).contentType, 'text/csv');
+    assert.equal(resolveFileInput({ base64: 'aGVsbG8=', filename: 'a.pdf' }, 'file', policy).contentType, 'application/pdf');
+    assert.throws(() => resolveFileInput({ base64: 'not base64!' }, 'file', policy), /not valid base64/);
+  });
+});
+
+describe('request bodies', () => {
+  const schema = { type: 'object', properties: { file: { type: 'string', format: 'binary' }, feedType: { type: 'string' } } };
+  const policy = { allowPaths: true, root };
+
+  it('offers path or base64 inputs for binary fields', () => {
+    assert.ok(withFileInputs(schema).properties.file.anyOf);
+    assert.deepEqual(withFileInputs(schema).properties.feedType, { type: 'string' });
+  });
+
+  it('encodes multipart bodies with file parts', () => {
+    const form = encodeRequestBody('multipart/form-data', { file: 'items.csv', feedType: 'inventory' }, schema, policy);
+    assert.ok(form instanceof FormData);
+    assert.deepEqual(describeEncodedBody(form).form, [
+      { name: 'file', filename: 'items.csv', contentType: 'text/csv', bytes: 13 },
+      { name: 'feedType', value: 'inventory' },
+    ]);
+  });
+
+  it('encodes form-urlencoded and raw bodies', () => {
+    const params = encodeRequestBody('application/x-www-form-urlencoded', { sku: ['A1', 'B2'], meta: { a: 1 } }, {}, policy);
+    assert.equal(params.toString(), 'sku=A1&sku=B2&meta=%7B%22a%22%3A1%7D');
+    assert.equal(encodeRequestBody('text/csv', 'sku\nA1', {}, policy), 'sku\nA1');
+    assert.deepEqual(encodeRequestBody('application/pdf', 'base64:JVBERg==', {}, policy), Buffer.from('%PDF'));
+    assert.deepEqual(encodeRequestBody('application/json', { a: 1 }, {}, policy), { a: 1 });
+  });
+});
@@ -0,0 +1,227 @@
+// Request bodies beyond JSON: multipart/form-data with file parts, form-urlencoded and raw text/binary
+import fs from 'fs';
+import path from 'path';
+
+export interface UploadPolicy {
+  allowPaths: boolean;
+  root?: string; // when set, local paths must resolve inside it
+}
+
+export interface FilePart {
+  data: Buffer;
+  filename: string;
+  contentType: string;
+}
+
+// Tool input schema for a file: a local path, base64 (optionally as a data: URL) or an object with either
+export const FILE_INPUT_SCHEMA = {
+  anyOf: [
+    { type: 'string', description: 'Local file path, data: URL, or base64 content prefixed with "base64:"' },
+    {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Local file path' },
+        base64: { type: 'string', description: 'File content, base64 encoded' },
+        filename: { type: 'string' },
+        content_type: { type: 'string' },
+      },
+    },
+  ],
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.zip': 'application/zip',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export function uploadPolicyFromEnv(transport: string): UploadPolicy {
+  const root = process.env.SCANPOWER_UPLOAD_ROOT?.trim();
+  // Over HTTP a remote client could otherwise read any file the server can; require an explicit root there
+  return { allowPaths: transport !== 'http' || !!root, root: root ? path.resolve(root) : undefined };
+}
+
+export function isJsonContentType(contentType: string): boolean {
+  return /json/i.test(contentType) || contentType === '*/*';
+}
+
+function isBinarySchema(schema: any): boolean {
+  return schema?.type === 'string' && (schema.format === 'binary' || schema.contentMediaType !== undefined);
+}
+
+/**
+ * Replace binary string schemas (file fields) with FILE_INPUT_SCHEMA, for the
+ * body itself and its top-level properties and array items.
+ */
+export function withFileInputs(schema: any): any {
+  if (isBinarySchema(schema)) {
+    return { ...FILE_INPUT_SCHEMA, description: schema.description || 'File' };
+  }
+  if (!schema?.properties) return schema;
+  const properties: Record<string, any> = {};
+  for (const [name, prop] of Object.entries<any>(schema.properties)) {
+    if (isBinarySchema(prop)) {
+      properties[name] = { ...FILE_INPUT_SCHEMA, description: prop.description || `File for ${name}` };
+    } else if (prop?.type === 'array' && isBinarySchema(prop.items)) {
+      properties[name] = { ...prop, items: { ...FILE_INPUT_SCHEMA, description: prop.items.description || `File for ${name}` } };
+    } else {
+      properties[name] = prop;
+    }
+  }
+  return { ...schema, properties };
+}
+
+// Body properties that are files (binary strings in the spec), by name
+export function fileFieldNames(schema: any): string[] {
+  return Object.entries<any>(schema?.properties || {})
+    .filter(([, prop]) => isBinarySchema(prop) || (prop?.type === 'array' && isBinarySchema(prop.items)))
+    .map(([name]) => name);
+}
+
+function readLocalFile(filePath: string, policy: UploadPolicy): Buffer {
+  if (!policy.allowPaths) {
+    throw new Error('Local file paths are disabled for this transport; pass base64 content or set SCANPOWER_UPLOAD_ROOT');
+  }
+  const resolved = path.resolve(policy.root || process.cwd(), filePath);
+  if (policy.root && resolved !== policy.root && !resolved.startsWith(policy.root + path.sep)) {
+    throw new Error(`File ${filePath} is outside SCANPOWER_UPLOAD_ROOT`);
+  }
+  return fs.readFileSync(resolved);
+}
+
+function decodeBase64(text: string, field: string): Buffer {
+  const clean = text.replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(clean)) {
+    throw new Error(`${field}: content is not valid base64`);
+  }
+  return Buffer.from(clean, 'base64');
+}
+
+/**
+ * Resolve a file argument: { path } / { base64 }, a data: URL, "base64:<...>",
+ * an existing local path, or bare base64 when it is not a readable path.
+ */
+export function resolveFileInput(value: any, field: string, policy: UploadPolicy): FilePart {
+  if (Buffer.isBuffer(value)) {
+    return { data: value, filename: field, contentType: 'application/octet-stream' };
+  }
+  if (value && typeof value === 'object') {
+    if (typeof value.path === 'string') {
+      const part = resolveFileInput(value.path, field, policy);
+      return { ...part, filename: value.filename || part.filename, contentType: value.content_type || part.contentType };
+    }
+    if (typeof value.base64 === 'string') {
+      const filename = value.filename || field;
+      return {
+        data: decodeBase64(value.base64, field),
+        filename,
+        contentType: value.content_type || MIME_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream',
+      };
+    }
+    throw new Error(`${field}: expected a file path or base64 content`);
+  }
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`${field}: expected a file path or base64 content`);
+  }
+
+  const dataUrl = /^data:([^;,]+)?(;[^,]*)?;base64,(.*)$/s.exec(value);
+  if (dataUrl) {
+    return { data: decodeBase64(dataUrl[3], field), filename: field, contentType: dataUrl[1] || 'application/octet-stream' };
+  }
+  if (value.startsWith('base64:')) {
+    return { data: decodeBase64(value.slice(7), field), filename: field, contentType: 'application/octet-stream' };
+  }
+  const fromPath = (): FilePart => ({
+    data: readLocalFile(value, policy),
+    filename: path.basename(value),
+    contentType: MIME_TYPES[path.extname(value).toLowerCase()] || 'application/octet-stream',
+  });
+  // Bare base64 and a file name can look alike; an existing file wins
+  const base64Like = /^[A-Za-z0-9+/]+={0,2}$/.test(value) && value.length % 4 === 0;
+  if (!base64Like || (policy.allowPaths && fs.existsSync(path.resolve(policy.root || process.cwd(), value)))) {
+    return fromPath();
+  }
+  return { data: decodeBase64(value, field), filename: field, contentType: 'application/octet-stream' };
+}
+
+function formValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Encode a body argument for the chosen content type: FormData for multipart
+ * (file fields become Blob parts), URLSearchParams for form-urlencoded and a
+ * string or Buffer for raw bodies. JSON bodies are returned unchanged.
+ * bodySchema is the spec's resolved schema, where files are binary strings.
+ */
+export function encodeRequestBody(contentType: string, body: any, bodySchema: any, policy: UploadPolicy): any {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (isJsonContentType(type)) {
+    return body;
+  }
+
+  if (type === 'multipart/form-data') {
+    const files = new Set(fileFieldNames(bodySchema));
+    const form = new FormData();
+    for (const [name, value] of Object.entries<any>(body && typeof body === 'object' ? body : { file: body })) {
+      if (value === undefined) continue;
+      const values = Array.isArray(value) && (files.has(name) || value.every((v) => typeof v !== 'object')) ? value : [value];
+      for (const v of values) {
+        if (files.has(name)) {
+          const part = resolveFileInput(v, name, policy);
+          form.append(name, new Blob([new Uint8Array(part.data)], { type: part.contentType }), part.filename);
+        } else {
+          form.append(name, formValue(v));
+        }
+      }
+    }
+    return form;
+  }
+
+  if (type === 'application/x-www-form-urlencoded') {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries<any>(body && typeof body === 'object' ? body : {})) {
+      if (value === undefined) continue;
+      for (const v of Array.isArray(value) ? value : [value]) {
+        params.append(name, formValue(v));
+      }
+    }
+    return params;
+  }
+
+  // Raw bodies: binary types and binary schemas are files, text is sent as-is
+  if (isBinarySchema(bodySchema) || (!type.startsWith('text/') && !/xml|csv/.test(type))) {
+    return resolveFileInput(body, 'body', policy).data;
+  }
+  return typeof body === 'string' ? body : formValue(body);
+}
+
+// Printable form of an encoded body for dry runs (file contents are summarized, not dumped)
+export function describeEncodedBody(body: any): { body?: any; form?: Array<Record<string, any>> } {
+  if (body instanceof FormData) {
+    const form: Array<Record<string, any>> = [];
+    body.forEach((value, name) => {
+      form.push(typeof value === 'string'
+        ? { name, value }
+        : { name, filename: (value as File).name, contentType: value.type, bytes: value.size });
+    });
+    return { form };
+  }
+  if (body instanceof URLSearchParams) {
+    return { body: body.toString() };
+  }
+  if (Buffer.isBuffer(body)) {
+    return { body: `<${body.length} bytes of binary data>` };
+  }
+  return { body };
+}
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { argumentsHash, classifyOperation, ConfirmationGate } from './confirm.js';
+
+describe('confirmation', () => {
+  it('classifies operations by method, name and overrides', () => {
+    assert.equal(classifyOperation('listInboundPlans', 'GET'), 'read');
+    assert.equal(classifyOperation('searchCatalogItems', 'POST'), 'read');
+    assert.equal(classifyOperation('createInboundPlan', 'POST'), 'write');
+    assert.equal(classifyOperation('confirmPlacementOption', 'POST'), 'destructive');
+    assert.equal(classifyOperation('deleteBatches', 'POST'), 'destructive');
+    assert.equal(classifyOperation('submitBoxes', 'POST', [{ pattern: /^submitBoxes$/, risk: 'destructive' }]), 'destructive');
+  });
+
+  it('hashes arguments independently of key order and the token', () => {
+    assert.equal(argumentsHash({ a: 1, b: { c: 2, d: 3 } }), argumentsHash({ b: { d: 3, c: 2 }, a: 1, confirmation_token: 'x' }));
+    assert.notEqual(argumentsHash({ a: 1 }), argumentsHash({ a: 2 }));
+  });
+
+  it('binds tokens to the session, tool and arguments and uses them once', () => {
+    const gate = new ConfirmationGate('write', 'catalogSearch=read');
+    assert.equal(gate.requires(gate.classify('catalogSearch', 'POST')), false);
+    assert.equal(gate.requires('write'), true);
+    assert.equal(new ConfirmationGate('destructive').requires('write'), false);
+
+    const args = { inboundPlanId: 'p1' };
+    const { token } = gate.issue('s1', 'createInboundPlan', args);
+    assert.equal(gate.consume(token, 's2', 'createInboundPlan', args), 'unknown');
+    assert.equal(gate.consume(token, 's1', 'createInboundPlan', { inboundPlanId: 'p2' }), 'mismatch');
+    // A mismatch uses the token up
+    assert.equal(gate.consume(token, 's1', 'createInboundPlan', args), 'unknown');
+
+    const second = gate.issue('s1', 'createInboundPlan', args).token;
+    assert.equal(gate.consume(second, 's1', 'createInboundPlan', { ...args, confirmation_token: second }), 'ok');
+    assert.equal(gate.consume(second, 's1', 'createInboundPlan', args), 'unknown');
+  });
+});
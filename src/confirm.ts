@@ -0,0 +1,126 @@
+// Confirmation gate: classify operations by risk and hold write/destructive calls until they are confirmed
+import { createHash, randomBytes } from 'crypto';
+import { createLogger } from './logger.js';
+import { globToRegExp } from './toolsets.js';
+
+const log = createLogger('CONFIRM');
+
+export type OperationRisk = 'read' | 'write' | 'destructive';
+
+// off: never ask; destructive: only destructive calls; write: write and destructive calls
+export type ConfirmLevel = 'off' | 'destructive' | 'write';
+
+export type ConsumeResult = 'ok' | 'unknown' | 'expired' | 'mismatch';
+
+interface PendingConfirmation {
+  sessionKey: string;
+  toolName: string;
+  argsHash: string;
+  expiresAt: number; // epoch milliseconds
+}
+
+const RISKS: OperationRisk[] = ['read', 'write', 'destructive'];
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+// Calls that commit spend or cannot be undone upstream (placement/transportation fees, cancellations, label purchases)
+const DESTRUCTIVE_OPERATIONS = [/^confirm/i, /^cancel/i, /^delete/i, /^retire/i, /^printCarrierLabel$/i];
+// Lookups the API exposes as POST because they take a body
+const READ_OPERATIONS = [/^(get|list|select|search|fetch)[A-Z]/, /Search$/, /^allFeedStatuses$/];
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// SCANPOWER_OPERATION_RISK="catalogSearch=read,submitBoxes=destructive,update*=write"
+function parseRiskOverrides(spec: string | undefined): Array<{ pattern: RegExp; risk: OperationRisk }> {
+  const overrides: Array<{ pattern: RegExp; risk: OperationRisk }> = [];
+  for (const entry of (spec || '').split(',')) {
+    const [name, value] = entry.split('=').map((part) => part.trim());
+    if (!name) continue;
+    if (!RISKS.includes(value as OperationRisk)) {
+      log.warn(`Ignoring invalid SCANPOWER_OPERATION_RISK entry: ${entry}`);
+      continue;
+    }
+    overrides.push({ pattern: globToRegExp(name), risk: value as OperationRisk });
+  }
+  return overrides;
+}
+
+/**
+ * Risk of an operation: the override list wins, then DELETE and known
+ * irreversible operationIds are destructive, then GET-like methods and lookup
+ * names are reads; everything else is a write.
+ */
+export function classifyOperation(
+  operationId: string,
+  method: string,
+  overrides: Array<{ pattern: RegExp; risk: OperationRisk }> = []
+): OperationRisk {
+  const override = overrides.find((o) => o.pattern.test(operationId));
+  if (override) return override.risk;
+  const upper = method.toUpperCase();
+  if (upper === 'DELETE' || DESTRUCTIVE_OPERATIONS.some((re) => re.test(operationId))) return 'destructive';
+  if (READ_METHODS.includes(upper) || READ_OPERATIONS.some((re) => re.test(operationId))) return 'read';
+  return 'write';
+}
+
+// Stable across key order so a retried call with the same arguments matches its token
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function argumentsHash(args: Record<string, any>): string {
+  const { confirmation_token: _token, ...rest } = args;
+  return createHash('sha256').update(stableStringify(rest)).digest('hex');
+}
+
+export class ConfirmationGate {
+  private pending: Map<string, PendingConfirmation> = new Map();
+  private overrides: Array<{ pattern: RegExp; risk: OperationRisk }>;
+
+  constructor(readonly level: ConfirmLevel, riskOverrides?: string) {
+    this.overrides = parseRiskOverrides(riskOverrides);
+  }
+
+  // From SCANPOWER_CONFIRM (default "write") and SCANPOWER_OPERATION_RISK
+  static fromEnv(): ConfirmationGate {
+    const level = (process.env.SCANPOWER_CONFIRM || 'write').trim().toLowerCase();
+    if (!['off', 'destructive', 'write'].includes(level)) {
+      throw new Error(`Invalid SCANPOWER_CONFIRM "${level}". Use one of: write, destructive, off`);
+    }
+    if (level === 'off') {
+      log.warn('SCANPOWER_CONFIRM=off - write and destructive calls run without confirmation.');
+    }
+    return new ConfirmationGate(level as ConfirmLevel, process.env.SCANPOWER_OPERATION_RISK);
+  }
+
+  classify(operationId: string, method: string): OperationRisk {
+    return classifyOperation(operationId, method, this.overrides);
+  }
+
+  requires(risk: OperationRisk): boolean {
+    if (this.level === 'off' || risk === 'read') return false;
+    return this.level === 'write' || risk === 'destructive';
+  }
+
+  // Issue a single-use token bound to the session, tool and exact arguments
+  issue(sessionKey: string, toolName: string, args: Record<string, any>): { token: string; expiresAt: number } {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) this.pending.delete(token);
+    }
+    const token = randomBytes(16).toString('hex');
+    const expiresAt = now + CONFIRMATION_TTL_MS;
+    this.pending.set(token, { sessionKey, toolName, argsHash: argumentsHash(args), expiresAt });
+    return { token, expiresAt };
+  }
+
+  consume(token: string, sessionKey: string, toolName: string, args: Record<string, any>): ConsumeResult {
+    const entry = this.pending.get(token);
+    if (!entry || entry.sessionKey !== sessionKey) return 'unknown';
+    this.pending.delete(token);
+    if (entry.expiresAt <= Date.now()) return 'expired';
+    if (entry.toolName !== toolName || entry.argsHash !== argumentsHash(args)) return 'mismatch';
+    return 'ok';
+  }
+}
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { classifyBody, decodeBody, documentContent, downloadDocument, downloadHostsFromEnv, findDocumentUrls, isDocumentOperation } from './documents.js';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+describe('document responses', () => {
+  it('classifies by content type and magic bytes', () => {
+    assert.equal(classifyBody(Buffer.from('%PDF-1.4'), 'application/octet-stream')?.format, 'pdf');
+    assert.deepEqual(classifyBody(PNG, 'binary/octet-stream'), { format: 'image', mimeType: 'image/png' });
+    assert.equal(classifyBody(Buffer.from('^XA^FO50,50^XZ'), 'text/plain')?.format, 'zpl');
+    assert.equal(classifyBody(Buffer.from('{}'), 'application/json'), null);
+  });
+
+  it('decodes JSON bodies of document operations as data', () => {
+    assert.deepEqual(decodeBody(Buffer.from('{"labelUrl": "x"}'), 'application/json'), { kind: 'data', data: { labelUrl: 'x' } });
+    assert.equal(decodeBody(Buffer.from('%PDF-1.4'), 'application/pdf').kind, 'document');
+    assert.equal(decodeBody('^XA^XZ', 'text/plain').kind, 'document');
+  });
+
+  it('treats label operations and binary responses as documents', () => {
+    assert.equal(isDocumentOperation('getBillOfLading', ['application/json']), true);
+    assert.equal(isDocumentOperation('listInboundPlans', ['application/json']), false);
+    assert.equal(isDocumentOperation('printCarrierLabel', []), true);
+    assert.equal(isDocumentOperation('exportReport', ['application/pdf']), true);
+  });
+
+  it('returns images as image content and PDFs as embedded resources', () => {
+    const image = documentContent({ format: 'image', mimeType: 'image/png', data: PNG }, 'getLabels', 0);
+    assert.equal(image[1].type, 'image');
+    const pdf = documentContent({ format: 'pdf', mimeType: 'application/pdf', data: Buffer.from('%PDF-1.4') }, 'getLabels', 1);
+    assert.deepEqual(pdf[1], { type: 'resource', resource: { uri: 'scanpower://documents/getLabels/2.pdf', mimeType: 'application/pdf', blob: Buffer.from('%PDF-1.4').toString('base64') } });
+  });
+
+  it('finds linked document URLs under url-like keys', () => {
+    const response = { payload: { documentDownloads: [{ downloadType: 'URL', uri: 'https://s3.amazonaws.com/a.pdf?sig=1' }] }, help: 'https://example.com/docs', labelUrl: 'https://s3.amazonaws.com/b.pdf' };
+    assert.deepEqual(findDocumentUrls(response), ['https://s3.amazonaws.com/a.pdf?sig=1', 'https://s3.amazonaws.com/b.pdf']);
+  });
+});
+
+describe('document downloads', () => {
+  it('allows the API hosts plus the S3/Amazon defaults or the configured hosts', () => {
+    assert.deepEqual(downloadHostsFromEnv(['https://api.scanpower.com']), ['api.scanpower.com', '*.amazonaws.com', '*.amazon.com']);
+    process.env.SCANPOWER_DOWNLOAD_HOSTS = 'labels.example.com, *.CDN.example.com';
+    assert.deepEqual(downloadHostsFromEnv(['https://api.scanpower.com']), ['api.scanpower.com', 'labels.example.com', '*.cdn.example.com']);
+    delete process.env.SCANPOWER_DOWNLOAD_HOSTS;
+  });
+
+  it('refuses plain http and hosts off the list before making a request', async () => {
+    const hosts = ['*.amazonaws.com'];
+    await assert.rejects(downloadDocument('http://s3.amazonaws.com/a.pdf', hosts), /http:\/\/s3\.amazonaws\.com is not an allowed download location/);
+    await assert.rejects(downloadDocument('https://169.254.169.254/latest/meta-data', hosts), /not an allowed download location/);
+    await assert.rejects(downloadDocument('https://amazonaws.com.evil.example/a.pdf', hosts), /not an allowed download location/);
+  });
+});
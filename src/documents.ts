@@ -0,0 +1,224 @@
+// Binary and document responses: labels, bills of lading and delivery challans as MCP content instead of mangled text
+import axios from 'axios';
+import fs from 'fs';
+import path from 'path';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from './logger.js';
+import { derefObject } from './schema.js';
+import { getHttpsAgent } from './tls.js';
+
+export type DocumentFormat = 'pdf' | 'image' | 'zpl' | 'other';
+
+export interface DocumentFile {
+  format: DocumentFormat;
+  mimeType: string;
+  data: Buffer;
+  source?: string; // URL the document was downloaded from
+}
+
+export type DecodedBody = { kind: 'data'; data: any } | { kind: 'document'; document: DocumentFile };
+
+// Operations whose results are labels or shipping documents, even when the spec only declares JSON (URLs)
+const DOCUMENT_OPERATIONS = /label|billoflading|challan|document/i;
+const URL_KEYS = /(url|uri|link|href)$/i;
+const MAX_DOWNLOADS = 10;
+// Where SP-API and carrier label links are presigned (S3 and Amazon document hosts)
+const DEFAULT_DOWNLOAD_HOSTS = ['*.amazonaws.com', '*.amazon.com'];
+const log = createLogger('DOCUMENTS');
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'application/zpl': 'zpl',
+};
+
+export function downloadRequested(args: Record<string, any>): boolean {
+  if (args.download !== undefined) return args.download === true || args.download === 'true';
+  return process.env.SCANPOWER_DOWNLOAD_DOCUMENTS === 'true';
+}
+
+export function labelOutputDir(): string | undefined {
+  return process.env.SCANPOWER_LABEL_OUTPUT_DIR?.trim() || undefined;
+}
+
+/**
+ * Hosts linked documents may be downloaded from: the API base URL hosts plus
+ * SCANPOWER_DOWNLOAD_HOSTS (comma-separated, `*.example.com` matches
+ * subdomains), which replaces the S3/Amazon defaults. Responses can link
+ * anywhere, so anything else (internal or link-local addresses included) is
+ * never fetched.
+ */
+export function downloadHostsFromEnv(baseUrls: string[]): string[] {
+  const configured = (process.env.SCANPOWER_DOWNLOAD_HOSTS || '').split(',').map((host) => host.trim().toLowerCase()).filter(Boolean);
+  const apiHosts = baseUrls.map((url) => new URL(url).hostname.toLowerCase());
+  return Array.from(new Set([...apiHosts, ...(configured.length > 0 ? configured : DEFAULT_DOWNLOAD_HOSTS)]));
+}
+
+function isAllowedDownload(url: URL, allowedHosts: string[]): boolean {
+  const host = url.hostname.toLowerCase();
+  return url.protocol === 'https:' && allowedHosts.some((pattern) => (pattern.startsWith('*.') ? host.endsWith(pattern.slice(1)) : host === pattern));
+}
+
+// Response media types declared for the operation's 2xx responses
+export function responseContentTypes(doc: any, operation: any): string[] {
+  const types: string[] = [];
+  for (const [status, response] of Object.entries<any>(operation?.responses || {})) {
+    if (!/^2/.test(status)) continue;
+    types.push(...Object.keys(derefObject(doc, response)?.content || {}));
+  }
+  return types;
+}
+
+// Binary responses need the raw bytes: anything declared that isn't JSON or plain text
+export function expectsBinary(contentTypes: string[]): boolean {
+  return contentTypes.some((ct) => !/json|^text\/plain/i.test(ct));
+}
+
+export function isDocumentOperation(operationId: string, contentTypes: string[]): boolean {
+  return DOCUMENT_OPERATIONS.test(operationId) || expectsBinary(contentTypes);
+}
+
+// Classify a body by its content type, falling back to magic bytes for octet-stream and mislabeled responses
+export function classifyBody(data: Buffer, contentType: string): { format: DocumentFormat; mimeType: string } | null {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (type === 'application/pdf' || data.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return { format: 'pdf', mimeType: 'application/pdf' };
+  }
+  if (type.startsWith('image/')) {
+    return { format: 'image', mimeType: type };
+  }
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return { format: 'image', mimeType: 'image/png' };
+  }
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return { format: 'image', mimeType: 'image/jpeg' };
+  }
+  if (/zpl/.test(type) || /^\s*\^XA/.test(data.subarray(0, 64).toString('latin1'))) {
+    return { format: 'zpl', mimeType: 'application/zpl' };
+  }
+  if (/json/.test(type) || type.startsWith('text/')) {
+    return null;
+  }
+  return { format: 'other', mimeType: type || 'application/octet-stream' };
+}
+
+// Decode an arraybuffer (or text) response: documents stay binary, JSON and text become data as usual
+export function decodeBody(raw: ArrayBuffer | Buffer | any, contentType: string): DecodedBody {
+  const data = Buffer.isBuffer(raw)
+    ? raw
+    : raw instanceof ArrayBuffer
+      ? Buffer.from(raw)
+      : typeof raw === 'string' && /^\s*\^XA/.test(raw)
+        ? Buffer.from(raw, 'utf8')
+        : null;
+  if (!data) {
+    return { kind: 'data', data: raw };
+  }
+  const classified = classifyBody(data, contentType);
+  if (classified) {
+    return { kind: 'document', document: { ...classified, data } };
+  }
+  const text = data.toString('utf8');
+  if (/json/i.test(contentType) || /^\s*[{[]/.test(text)) {
+    try {
+      return { kind: 'data', data: JSON.parse(text) };
+    } catch {
+      // not JSON after all
+    }
+  }
+  return { kind: 'data', data: text };
+}
+
+// http(s) URLs under url/uri/link/href keys, e.g. { labelUrl } or SP-API { documentDownloads: [{ uri }] }
+export function findDocumentUrls(value: any, depth: number = 0, found: string[] = []): string[] {
+  if (depth > 6 || found.length >= MAX_DOWNLOADS || !value || typeof value !== 'object') return found;
+  for (const [key, inner] of Object.entries<any>(value)) {
+    if (typeof inner === 'string' && /^https?:\/\//i.test(inner) && (Array.isArray(value) || URL_KEYS.test(key))) {
+      if (!found.includes(inner)) found.push(inner);
+    } else if (inner && typeof inner === 'object') {
+      findDocumentUrls(inner, depth + 1, found);
+    }
+    if (found.length >= MAX_DOWNLOADS) break;
+  }
+  return found;
+}
+
+// Presigned URLs carry their own authorization, so no API credentials are sent. Only https URLs on an allowed host are fetched
+export async function downloadDocument(url: string, allowedHosts: string[]): Promise<DocumentFile> {
+  const notAllowed = (target: URL) => new Error(`${target.protocol}//${target.host} is not an allowed download location (https on ${allowedHosts.join(', ')}; see SCANPOWER_DOWNLOAD_HOSTS)`);
+  const target = new URL(url);
+  if (!isAllowedDownload(target, allowedHosts)) throw notAllowed(target);
+  const resp = await axios.get(url, {
+    responseType: 'arraybuffer',
+    timeout: 60000,
+    httpsAgent: getHttpsAgent(),
+    headers: { 'User-Agent': 'ScanPower-MCP-Server/1.0.0' },
+    // A redirect must stay on an allowed host too
+    beforeRedirect: (options) => {
+      const next = new URL(String(options.href));
+      if (!isAllowedDownload(next, allowedHosts)) throw notAllowed(next);
+    },
+  });
+  const data = Buffer.from(resp.data);
+  const classified = classifyBody(data, String(resp.headers['content-type'] || ''));
+  return { ...(classified || { format: 'other', mimeType: String(resp.headers['content-type'] || 'application/octet-stream') }), data, source: url };
+}
+
+function extensionFor(document: DocumentFile): string {
+  if (document.format === 'zpl') return 'zpl';
+  return EXTENSIONS[document.mimeType] || document.mimeType.split('/')[1]?.replace(/[^a-z0-9]/gi, '') || 'bin';
+}
+
+// Write to SCANPOWER_LABEL_OUTPUT_DIR (when set) so pack stations can print the file directly
+export function saveDocument(document: DocumentFile, toolName: string, index: number): string | undefined {
+  const dir = labelOutputDir();
+  if (!dir) return undefined;
+  fs.mkdirSync(dir, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const suffix = index > 0 ? `-${index + 1}` : '';
+  const filePath = path.resolve(dir, `${toolName}-${stamp}${suffix}.${extensionFor(document)}`);
+  fs.writeFileSync(filePath, document.data);
+  log.info(`Saved ${document.mimeType} (${document.data.length} bytes) to ${filePath}`);
+  return filePath;
+}
+
+/**
+ * MCP content for a document: PDFs and other binaries as embedded resources,
+ * images as image content and ZPL as text. Without a saved file the resource
+ * gets a scanpower:// URI that only names it.
+ */
+export function documentContent(document: DocumentFile, toolName: string, index: number, savedPath?: string): CallToolResult['content'] {
+  const uri = savedPath
+    ? `file://${savedPath}`
+    : `scanpower://documents/${toolName}/${index + 1}.${extensionFor(document)}`;
+  const where = savedPath ? ` saved to ${savedPath}` : '';
+  const from = document.source ? ` from ${document.source.split('?')[0]}` : '';
+  const header = `${toolName}: ${document.mimeType} document (${document.data.length} bytes)${from}${where}`;
+
+  if (document.format === 'zpl') {
+    return [{ type: 'text', text: `${header}\n\n${document.data.toString('utf8')}` }];
+  }
+  if (document.format === 'image') {
+    return [
+      { type: 'text', text: header },
+      { type: 'image', data: document.data.toString('base64'), mimeType: document.mimeType },
+    ];
+  }
+  return [
+    { type: 'text', text: header },
+    { type: 'resource', resource: { uri, mimeType: document.mimeType, blob: document.data.toString('base64') } },
+  ];
+}
+
+export function documentSummary(document: DocumentFile, savedPath?: string): Record<string, any> {
+  return {
+    format: document.format,
+    mimeType: document.mimeType,
+    bytes: document.data.length,
+    ...(savedPath ? { path: savedPath } : {}),
+    ...(document.source ? { source: document.source.split('?')[0] } : {}),
+  };
+}
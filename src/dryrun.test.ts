@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildDryRun, isDryRunEnabled, MANAGED_ACCESS_TOKEN, MANAGED_TOKEN, redactHeaders } from './dryrun.js';
+
+describe('dry run', () => {
+  it('is enabled per call or for the deployment', () => {
+    assert.equal(isDryRunEnabled({ dry_run: 'true' }), true);
+    assert.equal(isDryRunEnabled({ dry_run: false }), false);
+    process.env.SCANPOWER_DRY_RUN = 'true';
+    assert.equal(isDryRunEnabled(undefined), true);
+    delete process.env.SCANPOWER_DRY_RUN;
+  });
+
+  it('keeps the auth scheme but not the credentials', () => {
+    assert.deepEqual(redactHeaders({ Authorization: 'Bearer abc.def', 'x-access-token': 'Atza|1', Accept: 'application/json' }), {
+      Authorization: 'Bearer <redacted>',
+      'x-access-token': '<redacted>',
+      Accept: 'application/json',
+    });
+  });
+
+  it('shows managed token placeholders as they are', () => {
+    const headers = { Authorization: `Bearer ${MANAGED_TOKEN}`, 'x-access-token': MANAGED_ACCESS_TOKEN };
+    assert.deepEqual(redactHeaders(headers), { Authorization: 'Bearer <managed token>', 'x-access-token': '<managed>' });
+  });
+
+  it('renders a quoted curl command', () => {
+    const dryRun = buildDryRun('createInboundPlan', {
+      method: 'POST',
+      url: 'https://api.scanpower.com/api/az/inbound/plans?marketplaceId=ATVPDKIKX0DER',
+      headers: { 'Content-Type': 'application/json' },
+      body: { name: "Bob's plan" },
+    }, { scheme: 'bearer', bearerSource: 'managed' });
+    assert.equal(dryRun.curl, [
+      "curl -X POST 'https://api.scanpower.com/api/az/inbound/plans?marketplaceId=ATVPDKIKX0DER'",
+      "-H 'Content-Type: application/json'",
+      `--data-raw '{"name":"Bob'\\''s plan"}'`,
+    ].join(' \\\n  '));
+  });
+});
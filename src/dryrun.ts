@@ -0,0 +1,82 @@
+// Dry run: render the request a tool call would send, with secrets redacted, instead of sending it
+import { isRedactedKey } from './logger.js';
+
+export interface RenderedRequest {
+  method: string;
+  url: string; // absolute, including the serialized query string
+  headers: Record<string, string>;
+  body?: any;
+  // multipart/form-data parts; files are summarized by name, type and size
+  form?: Array<Record<string, any>>;
+}
+
+export interface DryRunAuth {
+  scheme: 'basic' | 'bearer' | 'header' | 'none';
+  bearerSource?: 'managed' | 'api_token' | 'environment';
+  amazonAccessToken?: 'managed' | 'argument';
+}
+
+export interface DryRun {
+  tool: string;
+  request: RenderedRequest;
+  auth: DryRunAuth;
+  curl: string;
+}
+
+// Stand-ins for managed tokens, which dry runs never fetch
+export const MANAGED_TOKEN = '<managed token>';
+export const MANAGED_ACCESS_TOKEN = '<managed>';
+
+const REDACTED = '<redacted>';
+const SECRET_HEADER = /token|secret|password|api[-_]?key|cookie/i;
+
+export function isDryRunEnabled(args: Record<string, any> | undefined): boolean {
+  return args?.dry_run === true || args?.dry_run === 'true' || process.env.SCANPOWER_DRY_RUN === 'true';
+}
+
+// Keep the auth scheme visible but never the credential itself
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === `Bearer ${MANAGED_TOKEN}` || value === MANAGED_ACCESS_TOKEN) {
+      redacted[name] = value;
+    } else if (name.toLowerCase() === 'authorization') {
+      const scheme = /^(\S+)\s/.exec(value)?.[1];
+      redacted[name] = scheme ? `${scheme} ${REDACTED}` : REDACTED;
+    } else if (SECRET_HEADER.test(name) || isRedactedKey(name)) {
+      redacted[name] = REDACTED;
+    } else {
+      redacted[name] = value;
+    }
+  }
+  return redacted;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// curl equivalent of an already redacted request
+export function toCurl(request: RenderedRequest): string {
+  const lines = [`curl -X ${request.method} ${shellQuote(request.url)}`];
+  for (const [name, value] of Object.entries(request.headers)) {
+    lines.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+  }
+  for (const part of request.form || []) {
+    const value = part.filename !== undefined ? `@${part.filename};type=${part.contentType}` : String(part.value);
+    lines.push(`-F ${shellQuote(`${part.name}=${value}`)}`);
+  }
+  if (request.body !== undefined) {
+    lines.push(`--data-raw ${shellQuote(typeof request.body === 'string' ? request.body : JSON.stringify(request.body))}`);
+  }
+  return lines.join(' \\\n  ');
+}
+
+export function buildDryRun(toolName: string, request: RenderedRequest, auth: DryRunAuth): DryRun {
+  return { tool: toolName, request, auth, curl: toCurl(request) };
+}
+
+export function formatDryRun(dryRun: DryRun): string {
+  const { tool, request } = dryRun;
+  return `Dry run of ${tool}: the request below was NOT sent. Secrets are redacted.\n\n${request.method} ${request.url}\n\n${dryRun.curl}\n\n${JSON.stringify({ dryRun }, null, 2)}`;
+}
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildElicitationSchema, collectMissingInputs, MissingInput } from './elicit.js';
+
+describe('collectMissingInputs', () => {
+  const op = {
+    paramDefs: {
+      path: [{ name: 'inboundPlanId', schema: { type: 'string' } }],
+      query: [{ name: 'page-size', required: true, schema: { type: 'integer' } }, { name: 'status', schema: { type: 'string' } }],
+      header: [{ name: 'x-access-token', required: true }],
+    },
+    bodyRequired: true,
+    bodySchema: { type: 'object', properties: { name: { type: 'string' } } },
+  };
+
+  it('lists required inputs by argument name and skips the server-filled access token', () => {
+    const missing = collectMissingInputs(op, { status: 'ACTIVE' });
+    assert.deepEqual(missing.map((mi) => [mi.name, mi.in]), [['inboundPlanId', 'path'], ['page_size', 'query'], ['body', 'body']]);
+  });
+
+  it('accepts either the parameter or the argument name', () => {
+    assert.deepEqual(collectMissingInputs(op, { inboundPlanId: 'p1', page_size: 5, body: {} }), []);
+    assert.deepEqual(collectMissingInputs(op, { inboundPlanId: 'p1', 'page-size': 5, body: {} }), []);
+  });
+});
+
+describe('buildElicitationSchema', () => {
+  it('turns primitive inputs into form fields', () => {
+    const missing: MissingInput[] = [
+      { name: 'inboundPlanId', in: 'path', description: 'Plan id', schema: { type: 'string', minLength: 38, pattern: '^wf' } },
+      { name: 'status', in: 'query', schema: { type: 'string', enum: ['ACTIVE', 'VOIDED'] } },
+      { name: 'pageSize', in: 'query', schema: { type: ['integer', 'null'], minimum: 1, maximum: 30 } },
+      { name: 'includeVoided', schema: { type: 'boolean', default: false } },
+    ];
+    assert.deepEqual(buildElicitationSchema(missing), {
+      type: 'object',
+      properties: {
+        inboundPlanId: { title: 'inboundPlanId', description: 'Plan id (path parameter)', type: 'string', minLength: 38 },
+        status: { title: 'status', description: '(query parameter)', type: 'string', enum: ['ACTIVE', 'VOIDED'] },
+        pageSize: { title: 'pageSize', description: '(query parameter)', type: 'integer', minimum: 1, maximum: 30 },
+        includeVoided: { title: 'includeVoided', type: 'boolean', default: false },
+      },
+      required: ['inboundPlanId', 'status', 'pageSize', 'includeVoided'],
+    });
+  });
+
+  it('gives up when any input is not a flat primitive', () => {
+    assert.equal(buildElicitationSchema([{ name: 'inboundPlanId' }, { name: 'body', in: 'body', schema: { type: 'object' } }]), null);
+  });
+});
@@ -0,0 +1,80 @@
+// Missing tool inputs: MCP elicitation where the client supports it, a readable error otherwise
+
+export interface MissingInput {
+  name: string; // argument name as exposed in the tool's input schema
+  description?: string;
+  in?: string; // path, query, header or body
+  schema?: any;
+}
+
+// Collect required path/query/header params and the request body that are absent from the arguments
+export function collectMissingInputs(op: any, args: Record<string, any>): MissingInput[] {
+  const missing: MissingInput[] = [];
+  for (const location of ['path', 'query', 'header']) {
+    for (const def of op.paramDefs?.[location] || []) {
+      const argName = def.name.replace(/[-.]/g, '_');
+      if (args[def.name] !== undefined || args[argName] !== undefined) continue;
+      // Path params are always required; x-access-token is filled in by the server
+      if (location !== 'path' && !def.required) continue;
+      if (location === 'header' && def.name === 'x-access-token') continue;
+      missing.push({ name: argName, description: def.description, in: location, schema: def.schema });
+    }
+  }
+  if (op.bodyRequired && args.body === undefined) {
+    missing.push({ name: 'body', description: 'Request body', in: 'body', schema: op.bodySchema || { type: 'object' } });
+  }
+  // Tokens are never elicited
+  return missing.filter((mi) => mi.name !== 'api_token');
+}
+
+// Elicitation forms only support flat primitive fields; anything else returns null
+function toElicitationField(input: MissingInput): Record<string, any> | null {
+  const schema = input.schema || { type: 'string' };
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type || 'string';
+  const description = [input.description || schema.description, input.in ? `(${input.in} parameter)` : undefined]
+    .filter(Boolean)
+    .join(' ');
+  const base: Record<string, any> = { title: input.name, ...(description ? { description } : {}) };
+
+  if (type === 'string') {
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return { ...base, type: 'string', enum: schema.enum.map((e: any) => String(e)) };
+    }
+    const field: Record<string, any> = { ...base, type: 'string' };
+    if (typeof schema.minLength === 'number') field.minLength = schema.minLength;
+    if (typeof schema.maxLength === 'number') field.maxLength = schema.maxLength;
+    if (['email', 'uri', 'date', 'date-time'].includes(schema.format)) field.format = schema.format;
+    if (typeof schema.default === 'string') field.default = schema.default;
+    return field;
+  }
+  if (type === 'number' || type === 'integer') {
+    const field: Record<string, any> = { ...base, type };
+    if (typeof schema.minimum === 'number') field.minimum = schema.minimum;
+    if (typeof schema.maximum === 'number') field.maximum = schema.maximum;
+    if (typeof schema.default === 'number') field.default = schema.default;
+    return field;
+  }
+  if (type === 'boolean') {
+    return { ...base, type: 'boolean', ...(typeof schema.default === 'boolean' ? { default: schema.default } : {}) };
+  }
+  return null;
+}
+
+// Build the requestedSchema for an elicitation/create request, or null if any input cannot be expressed as a form field
+export function buildElicitationSchema(missing: MissingInput[]): { type: 'object'; properties: Record<string, any>; required: string[] } | null {
+  const properties: Record<string, any> = {};
+  for (const input of missing) {
+    const field = toElicitationField(input);
+    if (!field) return null;
+    properties[input.name] = field;
+  }
+  return { type: 'object', properties, required: missing.map((mi) => mi.name) };
+}
+
+export function formatMissingInputs(toolName: string, missing: MissingInput[]): string {
+  const lines = missing.map((mi) => {
+    const schema = mi.schema ? `\n  schema: ${JSON.stringify(mi.schema)}` : '';
+    return `- ${mi.name} (${mi.in || 'argument'})${mi.description ? `: ${mi.description}` : ''}${schema}`;
+  });
+  return `Missing required inputs for ${toolName}. Call the tool again with these arguments:\n\n${lines.join('\n')}`;
+}
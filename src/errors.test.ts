@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extractErrorDetails, formatMappedError, mapApiError } from './errors.js';
+
+function httpError(status: number, data: any, headers: Record<string, string> = {}): any {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    isAxiosError: true,
+    config: { method: 'post', url: '/api/az/inbound/plans', headers: { Authorization: 'Bearer secret' } },
+    response: { status, data, headers },
+  });
+}
+
+describe('extractErrorDetails', () => {
+  it('reads SP-API, ScanPower and plain error bodies', () => {
+    assert.deepEqual(extractErrorDetails({ errors: [{ code: 'InvalidInput', message: 'bad sku', details: 'sku' }] }), [{ code: 'InvalidInput', message: 'bad sku', details: 'sku' }]);
+    assert.deepEqual(extractErrorDetails({ errors: { msku: ['is required', 'is too short'] } }), [{ code: 'msku', message: 'is required; is too short' }]);
+    assert.deepEqual(extractErrorDetails({ error: 'invalid_grant', error_description: 'expired' }), [{ code: undefined, message: 'expired' }]);
+    assert.deepEqual(extractErrorDetails('Bad Gateway'), [{ message: 'Bad Gateway' }]);
+  });
+});
+
+describe('mapApiError', () => {
+  it('maps validation errors with the request id and a hint', () => {
+    const mapped = mapApiError(httpError(400, { errors: [{ code: 'InvalidInput', message: 'bad sku' }] }, { 'x-amzn-requestid': 'rid-1' }), 'createInboundPlan');
+    assert.equal(mapped.category, 'validation');
+    assert.equal(mapped.message, 'InvalidInput: bad sku');
+    assert.equal(mapped.requestId, 'rid-1');
+    assert.equal(mapped.retryable, false);
+    assert.deepEqual(mapped.request, { method: 'POST', url: '/api/az/inbound/plans' });
+    assert.match(mapped.hint, /scanpower:\/\/operations\/createInboundPlan/);
+  });
+
+  it('marks rate limits retryable and decodes binary error bodies', () => {
+    const body = Buffer.from(JSON.stringify({ errors: [{ code: 'QuotaExceeded', message: 'slow down' }] }));
+    const mapped = mapApiError(httpError(429, body, { 'retry-after': '3' }), 'getLabels');
+    assert.equal(mapped.category, 'rate_limit');
+    assert.equal(mapped.retryable, true);
+    assert.equal(mapped.retryAfterSeconds, 3);
+    assert.equal(mapped.errors[0].code, 'QuotaExceeded');
+  });
+
+  it('maps network failures, token fetch failures and other errors', () => {
+    const network = mapApiError(Object.assign(new Error('connect ECONNREFUSED'), { isAxiosError: true, code: 'ECONNREFUSED', config: { url: '/x' } }), 'getLabels');
+    assert.equal(network.category, 'network');
+    assert.equal(network.code, 'ECONNREFUSED');
+    assert.equal(network.retryable, true);
+    const auth = mapApiError(new Error('Authentication failed', { cause: httpError(401, { message: 'bad credentials' }) }), 'getLabels');
+    assert.equal(auth.category, 'auth');
+    assert.equal(auth.status, 401);
+    assert.equal(mapApiError(new Error('Unknown tool: x'), 'x').category, 'internal');
+  });
+
+  it('redacts what the upstream echoes back', () => {
+    const mapped = mapApiError(httpError(403, { message: 'token Bearer abc.def rejected', email: 'ops@example.com' }), 'getLabels');
+    assert.equal(mapped.message, 'token Bearer [REDACTED] rejected');
+    const text = formatMappedError('getLabels', mapped);
+    assert.match(text, /^getLabels failed \(auth, HTTP 403\)/);
+    assert.doesNotMatch(text, /abc\.def|secret/);
+  });
+});
@@ -0,0 +1,160 @@
+// Error mapping: turn failed upstream calls into structured, actionable tool errors instead of "status code 400"
+import { redact } from './logger.js';
+import { isRetryableError } from './retry.js';
+
+export type ErrorCategory = 'auth' | 'validation' | 'not_found' | 'conflict' | 'rate_limit' | 'upstream' | 'network' | 'internal';
+
+export interface ApiErrorDetail {
+  code?: string;
+  message: string;
+  details?: string;
+}
+
+export interface MappedError {
+  category: ErrorCategory;
+  status?: number;
+  // Network error code (ECONNREFUSED, ETIMEDOUT, ...) when there was no response
+  code?: string;
+  message: string;
+  errors: ApiErrorDetail[];
+  requestId?: string;
+  retryable: boolean;
+  retryAfterSeconds?: number;
+  hint: string;
+  request?: { method: string; url: string };
+}
+
+const REQUEST_ID_HEADERS = ['x-amzn-requestid', 'x-amzn-request-id', 'x-request-id', 'x-amz-rid', 'x-correlation-id'];
+
+function header(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name] ?? headers[name.toLowerCase()];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+// Error bodies of binary (label) operations arrive as an arraybuffer; JSON is parsed wherever it is found
+export function decodeErrorBody(data: any): any {
+  let text: string | undefined;
+  if (Buffer.isBuffer(data)) text = data.toString('utf8');
+  else if (data instanceof ArrayBuffer) text = Buffer.from(data).toString('utf8');
+  else if (typeof data === 'string') text = data;
+  if (text === undefined) return data;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text.trim() || undefined;
+  }
+}
+
+function asText(value: any): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Error entries from the body: SP-API `errors: [{ code, message, details }]`
+ * (also under `error`), ScanPower `errors` as strings or a field-to-messages
+ * map, and a plain `message` / `error` / `detail` string.
+ */
+export function extractErrorDetails(body: any): ApiErrorDetail[] {
+  if (typeof body === 'string') return [{ message: body.slice(0, 1000) }];
+  if (!body || typeof body !== 'object') return [];
+
+  const list = Array.isArray(body.errors) ? body.errors : Array.isArray(body.error?.errors) ? body.error.errors : undefined;
+  if (list) {
+    return list.map((e: any) => typeof e === 'string'
+      ? { message: e }
+      : { code: asText(e?.code), message: asText(e?.message) || asText(e) || 'Unknown error', details: asText(e?.details) });
+  }
+  if (body.errors && typeof body.errors === 'object') {
+    return Object.entries<any>(body.errors).map(([field, messages]) => ({
+      code: field,
+      message: Array.isArray(messages) ? messages.join('; ') : asText(messages) || 'Invalid value',
+    }));
+  }
+  const message = asText(body.message) || asText(body.error?.message) || asText(body.error_description) || asText(body.error) || asText(body.detail) || asText(body.title);
+  return message ? [{ code: asText(body.code) || asText(body.error?.code), message }] : [];
+}
+
+function categorize(status: number | undefined, hasResponse: boolean): ErrorCategory {
+  if (!hasResponse) return 'network';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 404 || status === 410) return 'not_found';
+  if (status === 409 || status === 412) return 'conflict';
+  if (status === 429) return 'rate_limit';
+  if (status !== undefined && (status >= 500 || status === 408)) return 'upstream';
+  return status !== undefined && status >= 400 ? 'validation' : 'internal';
+}
+
+function hintFor(category: ErrorCategory, status: number | undefined, toolName: string): string {
+  switch (category) {
+    case 'auth':
+      return status === 403
+        ? 'The user (or the proxy user acting for this call) is not allowed to do this, or the Amazon/Walmart account is not authorized for it. Check proxy_user_id with whoami and the marketplace authorization.'
+        : 'Authentication failed even after a token refresh. Check SCANPOWER_USERNAME/SCANPOWER_PASSWORD, or omit api_token to let the server manage tokens.';
+    case 'validation':
+      return `Fix the arguments listed in errors and call again. Parameter and body details: scanpower://operations/${toolName}`;
+    case 'not_found':
+      return 'Check the IDs in the path; list the parent resource first to find valid ones.';
+    case 'conflict':
+      return 'The resource changed or is in a state that does not allow this. Fetch its current state before retrying.';
+    case 'rate_limit':
+      return 'Rate limited after the automatic retries. Wait before calling again, or reduce page sizes and all_pages fetches.';
+    case 'upstream':
+      return 'The ScanPower API or the marketplace behind it failed. This is usually temporary; retry later.';
+    case 'network':
+      return 'The API could not be reached. Check SCANPOWER_BASE_URL, network access and TLS settings.';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Map any error thrown while handling a tool call. HTTP errors carry the
+ * status, the parsed error entries and request id; without a response they
+ * are network errors, and anything else is internal.
+ */
+export function mapApiError(thrown: any, toolName: string): MappedError {
+  // Token fetch failures wrap the HTTP error as the cause
+  const error = thrown?.cause?.isAxiosError && !thrown.isAxiosError ? thrown.cause : thrown;
+  const response = error?.response;
+  const config = error?.config;
+  const isHttpError = !!(error?.isAxiosError || response || config);
+  const status: number | undefined = response?.status;
+  const category = isHttpError ? categorize(status, !!response) : 'internal';
+  const body = decodeErrorBody(response?.data);
+  const errors = extractErrorDetails(body);
+
+  const requestId = REQUEST_ID_HEADERS.map((name) => header(response?.headers, name)).find(Boolean);
+  const retryAfter = Number(header(response?.headers, 'retry-after'));
+  const message = errors[0]?.message
+    ? `${errors[0].code ? `${errors[0].code}: ` : ''}${errors[0].message}`
+    : thrown instanceof Error ? thrown.message : String(thrown);
+
+  const mapped: MappedError = {
+    category,
+    ...(status !== undefined ? { status } : {}),
+    ...(!response && error?.code ? { code: String(error.code) } : {}),
+    message,
+    errors,
+    ...(requestId ? { requestId } : {}),
+    retryable: isHttpError && isRetryableError(error),
+    ...(Number.isFinite(retryAfter) && retryAfter > 0 ? { retryAfterSeconds: retryAfter } : {}),
+    hint: hintFor(category, status, toolName),
+    ...(config ? { request: { method: String(config.method || 'GET').toUpperCase(), url: String(config.url || '') } } : {}),
+  };
+  // Upstream bodies can echo tokens or PII back
+  return redact(mapped);
+}
+
+export function formatMappedError(toolName: string, mapped: MappedError): string {
+  const lines = [`${toolName} failed (${mapped.category}${mapped.status ? `, HTTP ${mapped.status}` : ''}): ${mapped.message}`];
+  for (const e of mapped.errors.slice(1)) {
+    lines.push(`- ${e.code ? `${e.code}: ` : ''}${e.message}`);
+  }
+  if (mapped.requestId) lines.push(`Request id: ${mapped.requestId}`);
+  lines.push(mapped.retryable ? 'Retryable: yes' : 'Retryable: no');
+  if (mapped.hint) lines.push(mapped.hint);
+  return `${lines.join('\n')}\n\n${JSON.stringify({ error: mapped }, null, 2)}`;
+}
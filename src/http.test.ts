@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpAccess, httpAccessFromEnv, startHttpTransport } from './http.js';
+
+const TOKEN = 'test-shared-token';
+
+function createServer(): Server {
+  const server = new Server({ name: 'http-test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [{ name: 'ping', inputSchema: { type: 'object' } }] }));
+  return server;
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve) => {
+    const probe = http.createServer().listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+function send(port: number, path: string, headers: Record<string, string>, body?: unknown): Promise<{ status: number; headers: http.IncomingHttpHeaders; text: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, path, method: body === undefined ? 'GET' : 'POST', headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers } }, (res) => {
+      let text = '';
+      res.on('data', (chunk) => (text += chunk));
+      res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, text }));
+    });
+    req.on('error', reject);
+    req.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+}
+
+const initialize = { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'curl', version: '1' } } };
+
+describe('HTTP transport', () => {
+  let port: number;
+  let shutdown: () => Promise<void>;
+  const closed: string[] = [];
+
+  before(async () => {
+    port = await freePort();
+    process.env.SCANPOWER_MCP_AUTH_TOKEN = TOKEN;
+    const access = httpAccessFromEnv('127.0.0.1', port);
+    delete process.env.SCANPOWER_MCP_AUTH_TOKEN;
+    shutdown = await startHttpTransport({
+      host: '127.0.0.1',
+      port,
+      path: '/mcp',
+      access,
+      createServer,
+      health: () => ({ ready: true }),
+      onSessionClosed: (sessionId) => closed.push(sessionId),
+    });
+  });
+
+  after(() => shutdown());
+
+  it('serves MCP sessions and reports them on the health check', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`), { requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } } });
+    const client = new Client({ name: 'http-test', version: '1.0.0' });
+    await client.connect(transport);
+    assert.deepEqual((await client.listTools()).tools.map((tool) => tool.name), ['ping']);
+    assert.deepEqual(JSON.parse((await send(port, '/health', {})).text), { status: 'ok', sessions: 1, ready: true });
+
+    const sessionId = transport.sessionId!;
+    await transport.terminateSession();
+    await client.close();
+    assert.deepEqual(closed, [sessionId]);
+    assert.equal((await send(port, '/mcp', { Authorization: `Bearer ${TOKEN}`, 'mcp-session-id': sessionId }, { jsonrpc: '2.0', id: 2, method: 'tools/list' })).status, 404);
+  });
+
+  it('requires the shared token on everything but the health check', async () => {
+    const missing = await send(port, '/mcp', {}, initialize);
+    assert.equal(missing.status, 401);
+    assert.equal(missing.headers['www-authenticate'], 'Bearer');
+    assert.equal((await send(port, '/mcp', { Authorization: 'Bearer wrong' }, initialize)).status, 401);
+    assert.equal((await send(port, '/sse', {})).status, 401);
+    assert.equal((await send(port, '/health', {})).status, 200);
+  });
+
+  it('rejects foreign Host and Origin headers before creating a session', async () => {
+    const auth = { Authorization: `Bearer ${TOKEN}` };
+    const rebound = await send(port, '/mcp', { ...auth, Host: `attacker.example:${port}` }, initialize);
+    assert.equal(rebound.status, 403);
+    assert.match(rebound.text, /Invalid Host header/);
+    assert.equal((await send(port, '/mcp', { ...auth, Origin: 'https://attacker.example' }, initialize)).status, 403);
+    assert.equal((await send(port, '/mcp', { ...auth, Origin: `http://localhost:${port}` }, initialize)).status, 200);
+    assert.equal(JSON.parse((await send(port, '/health', {})).text).sessions, 1);
+  });
+});
+
+describe('httpAccessFromEnv', () => {
+  const access = (host: string, env: Record<string, string>): HttpAccess => {
+    Object.assign(process.env, env);
+    try {
+      return httpAccessFromEnv(host, 3000);
+    } finally {
+      for (const name of Object.keys(env)) delete process.env[name];
+    }
+  };
+
+  it('needs a token beyond loopback and host names on wildcard addresses', () => {
+    assert.equal(access('127.0.0.1', {}).authToken, undefined);
+    assert.throws(() => access('10.0.0.5', {}), /SCANPOWER_MCP_AUTH_TOKEN is required/);
+    assert.throws(() => access('0.0.0.0', { SCANPOWER_MCP_AUTH_TOKEN: TOKEN }), /SCANPOWER_MCP_ALLOWED_HOSTS/);
+  });
+
+  it('allows loopback, the bound host and configured names with and without the port', () => {
+    const { allowedHosts, allowedOrigins } = access('0.0.0.0', { SCANPOWER_MCP_AUTH_TOKEN: TOKEN, SCANPOWER_MCP_ALLOWED_HOSTS: 'mcp.example.com', SCANPOWER_MCP_ALLOWED_ORIGINS: 'https://app.example.com' });
+    assert.ok(allowedHosts.includes('localhost:3000') && allowedHosts.includes('mcp.example.com') && allowedHosts.includes('mcp.example.com:3000'));
+    assert.ok(!allowedHosts.includes('0.0.0.0'));
+    assert.deepEqual(allowedOrigins, ['https://app.example.com']);
+  });
+});
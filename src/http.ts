@@ -0,0 +1,241 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('HTTP');
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  path: string; // streamable HTTP endpoint, e.g. /mcp
+  // A fresh MCP server per session; API client, tokens and tools are shared by the caller
+  createServer: () => Server;
+  health: () => Record<string, any>;
+  onSessionClosed: (sessionId: string) => void;
+  access: HttpAccess;
+}
+
+/**
+ * Who may use the HTTP transport. Every MCP request must carry the shared
+ * bearer token (when set), and Host/Origin headers are checked against the
+ * allowed lists so a web page can't reach the server through DNS rebinding.
+ */
+export interface HttpAccess {
+  authToken?: string;
+  allowedHosts: string[]; // Host header values, with and without the port
+  allowedOrigins: string[]; // checked only when the client sends Origin (browsers do)
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]', '::1'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::', '[::]'];
+
+function envList(value: string | undefined): string[] {
+  return (value || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+function withPort(hostname: string, port: number): string[] {
+  const name = hostname.includes(':') && !hostname.startsWith('[') ? `[${hostname}]` : hostname;
+  return /:\d+$/.test(name) ? [name] : [name, `${name}:${port}`];
+}
+
+/**
+ * Access settings from SCANPOWER_MCP_AUTH_TOKEN, SCANPOWER_MCP_ALLOWED_HOSTS and
+ * SCANPOWER_MCP_ALLOWED_ORIGINS. Listening beyond loopback without a token would
+ * hand the stored ScanPower credentials to anyone who can reach the port, so
+ * that fails startup, as does a wildcard address without allowed host names.
+ */
+export function httpAccessFromEnv(host: string, port: number): HttpAccess {
+  const authToken = process.env.SCANPOWER_MCP_AUTH_TOKEN?.trim() || undefined;
+  if (!authToken && !LOOPBACK_HOSTS.includes(host)) {
+    throw new Error(`SCANPOWER_MCP_AUTH_TOKEN is required when SCANPOWER_MCP_HOST is not a loopback address (got ${host})`);
+  }
+  const configuredHosts = envList(process.env.SCANPOWER_MCP_ALLOWED_HOSTS);
+  if (configuredHosts.length === 0 && WILDCARD_HOSTS.includes(host)) {
+    throw new Error(`Set SCANPOWER_MCP_ALLOWED_HOSTS to the host names clients use to reach the server when listening on ${host}`);
+  }
+  const hostnames = [...LOOPBACK_HOSTS.filter((name) => name !== '::1'), ...(WILDCARD_HOSTS.includes(host) ? [] : [host]), ...configuredHosts];
+  const allowedHosts = Array.from(new Set(hostnames.flatMap((name) => withPort(name, port))));
+  const configuredOrigins = envList(process.env.SCANPOWER_MCP_ALLOWED_ORIGINS);
+  const allowedOrigins = configuredOrigins.length > 0
+    ? configuredOrigins
+    : ['localhost', '127.0.0.1', '[::1]'].flatMap((name) => [`http://${name}`, `http://${name}:${port}`]);
+  return { authToken, allowedHosts, allowedOrigins };
+}
+
+// Same rules as the SDK's DNS rebinding protection
+function rejectedHeader(req: IncomingMessage, access: HttpAccess): string | undefined {
+  if (!access.allowedHosts.includes(req.headers.host || '')) return `Invalid Host header: ${req.headers.host}`;
+  const origin = req.headers.origin;
+  if (origin && !access.allowedOrigins.includes(origin)) return `Invalid Origin header: ${origin}`;
+  return undefined;
+}
+
+// Compared as digests so neither the length nor a matching prefix shows in the timing
+function hasBearerToken(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(text.length ? JSON.parse(text) : undefined);
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function jsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+/**
+ * Serve MCP over streamable HTTP (and the older HTTP+SSE transport at /sse and
+ * /messages) so several clients can share one server process. Each client
+ * session gets its own MCP server instance. Resolves to a shutdown function
+ * that closes all sessions and the listener.
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<() => Promise<void>> {
+  const streamable = new Map<string, StreamableHTTPServerTransport>();
+  const sse = new Map<string, SSEServerTransport>();
+  const { authToken, allowedHosts, allowedOrigins } = options.access;
+  const rebindingProtection = { enableDnsRebindingProtection: true, allowedHosts, allowedOrigins };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    const existing = sessionId ? streamable.get(sessionId) : undefined;
+    if (existing) {
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+    if (sessionId) {
+      jsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      jsonRpcError(res, 400, 'Bad Request: no valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      ...rebindingProtection,
+      onsessioninitialized: (id) => {
+        streamable.set(id, transport);
+        log.info('Session started', { sessionId: id });
+      },
+    });
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id && streamable.delete(id)) {
+        log.info('Session closed', { sessionId: id });
+        options.onSessionClosed(id);
+      }
+    };
+    await options.createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const transport = new SSEServerTransport('/messages', res, rebindingProtection);
+    sse.set(transport.sessionId, transport);
+    transport.onclose = () => {
+      if (sse.delete(transport.sessionId)) {
+        log.info('SSE session closed', { sessionId: transport.sessionId });
+        options.onSessionClosed(transport.sessionId);
+      }
+    };
+    log.info('SSE session started', { sessionId: transport.sessionId });
+    await options.createServer().connect(transport);
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    try {
+      // Only the health check is open (load balancers probe it by address); MCP sessions act with the
+      // server's ScanPower credentials. Checked before any session or MCP server is created
+      const rejected = url.pathname === '/health' ? undefined : rejectedHeader(req, options.access);
+      if (rejected) {
+        jsonRpcError(res, 403, rejected);
+        return;
+      }
+      if (url.pathname !== '/health' && authToken && !hasBearerToken(req, authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        jsonRpcError(res, 401, 'Unauthorized: missing or invalid bearer token');
+        return;
+      }
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, {
+          status: 'ok',
+          sessions: streamable.size + sse.size,
+          ...options.health(),
+        });
+      } else if (url.pathname === options.path) {
+        await handleStreamable(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSse(req, res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        const transport = sse.get(url.searchParams.get('sessionId') || '');
+        if (!transport) {
+          jsonRpcError(res, 404, 'Session not found');
+          return;
+        }
+        await transport.handlePostMessage(req, res, await readJsonBody(req));
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      log.error('Request failed', { error: error instanceof Error ? error.message : String(error) });
+      jsonRpcError(res, 500, error instanceof Error ? error.message : 'Internal server error');
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+  log.info(`ScanPower MCP server listening on http://${options.host}:${options.port}${options.path} (health: /health, legacy SSE: /sse)`);
+  log.info(`Client authentication ${authToken ? 'required (shared token)' : 'disabled (loopback only)'}; allowed hosts: ${allowedHosts.join(', ')}`);
+
+  return async () => {
+    log.info(`Shutting down: closing ${streamable.size + sse.size} session(s)`);
+    const transports = [...streamable.values(), ...sse.values()];
+    await Promise.allSettled(transports.map((t) => t.close()));
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    });
+  };
+}
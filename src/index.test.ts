@@ -0,0 +1,241 @@
+/**
+ * End-to-end checks of the server over stdio against a local stand-in for the
+ * ScanPower API, counting the requests the server makes.
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http, { IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { after, before, describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+
+interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  authorization?: string;
+  accessToken?: string;
+}
+
+interface MockResponse {
+  status: number;
+  body?: any;
+  headers?: Record<string, string>;
+  delayMs?: number;
+}
+
+const SPEC = {
+  openapi: '3.0.1',
+  info: { title: 'ScanPower test', version: '2.0.0' },
+  security: [{ bearer_auth: [] }],
+  components: { securitySchemes: { bearer_auth: { type: 'http', scheme: 'bearer' } } },
+  paths: {
+    '/api/az/inbound/plans': {
+      get: {
+        operationId: 'listInboundPlans',
+        parameters: [
+          { name: 'x-access-token', in: 'header', required: true, schema: { type: 'string' } },
+          { name: 'pageSize', in: 'query', schema: { type: 'integer', maximum: 30 } },
+        ],
+        responses: { '200': { description: 'ok', content: { 'application/json': { schema: { type: 'object' } } } } },
+      },
+    },
+    '/api/az/inbound/labels': {
+      get: {
+        operationId: 'getLabels',
+        responses: { '200': { description: 'ok', content: { 'application/json': { schema: { type: 'object', properties: { labelUrl: { type: 'string' } } } } } } },
+      },
+    },
+  },
+};
+
+// Token endpoints issue tok-1, tok-2, ... and az-1, az-2, ...; everything else goes to `respond`
+class MockApi {
+  requests: MockRequest[] = [];
+  respond: (request: MockRequest) => MockResponse = () => ({ status: 200, body: {} });
+  private server = http.createServer((req, res) => this.handle(req, res));
+  private issued = { api: 0, amazon: 0 };
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  calls(pathname: string): MockRequest[] {
+    return this.requests.filter((request) => request.path === pathname);
+  }
+
+  reset(respond: (request: MockRequest) => MockResponse): void {
+    this.requests = [];
+    this.respond = respond;
+    this.issued = { api: 0, amazon: 0 };
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(0, '127.0.0.1', () => resolve()));
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handle(req: IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const request: MockRequest = {
+      method: req.method || 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      authorization: req.headers.authorization,
+      accessToken: req.headers['x-access-token'] as string | undefined,
+    };
+    this.requests.push(request);
+    req.resume();
+    let response: MockResponse;
+    if (url.pathname === '/api/v2/token') {
+      response = { status: 200, body: { token: `tok-${++this.issued.api}` } };
+    } else if (url.pathname === '/api/az/access-token') {
+      response = { status: 200, body: { access_token: `az-${++this.issued.amazon}`, expires_in: 3600 } };
+    } else {
+      response = this.respond(request);
+    }
+    setTimeout(() => {
+      res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+      res.end(JSON.stringify(response.body ?? {}));
+    }, response.delayMs ?? 0);
+  }
+}
+
+describe('server', () => {
+  const api = new MockApi();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'index-test-'));
+  const specFile = path.join(dir, 'spec.json');
+
+  before(async () => {
+    fs.writeFileSync(specFile, JSON.stringify(SPEC));
+    await api.listen();
+  });
+
+  after(async () => {
+    await api.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // A server process started from the sources, run from an empty directory so no .env is picked up
+  async function withServer(run: (client: Client) => Promise<void>, env: Record<string, string> = {}): Promise<void> {
+    const transport = new StdioClientTransport({
+      command: path.join(ROOT, 'node_modules', '.bin', 'tsx'),
+      args: [path.join(ROOT, 'src', 'index.ts')],
+      cwd: dir,
+      env: {
+        SCANPOWER_BASE_URL: api.url,
+        SCANPOWER_OPENAPI_SPEC: specFile,
+        SCANPOWER_USERNAME: 'user',
+        SCANPOWER_PASSWORD: 'secret',
+        SCANPOWER_LOG_LEVEL: 'error',
+        ...env,
+      },
+      stderr: 'pipe',
+    });
+    const stderr: string[] = [];
+    transport.stderr?.on('data', (chunk) => stderr.push(String(chunk)));
+    const client = new Client({ name: 'index-test', version: '1.0.0' });
+    try {
+      await client.connect(transport);
+      await run(client);
+    } catch (error) {
+      process.stderr.write(stderr.join(''));
+      throw error;
+    } finally {
+      await client.close();
+    }
+  }
+
+  it('refreshes both tokens and replays a request rejected with 401', async () => {
+    api.reset((request) => (request.authorization === 'Bearer tok-1' ? { status: 401, body: { message: 'token expired' } } : { status: 200, body: { inboundPlans: [] } }));
+    await withServer(async (client) => {
+      const result: any = await client.callTool({ name: 'listInboundPlans', arguments: {} });
+      assert.equal(result.isError, undefined);
+      assert.equal(api.calls('/api/v2/token').length, 2);
+      assert.equal(api.calls('/api/az/access-token').length, 2);
+      const sent = api.calls('/api/az/inbound/plans');
+      assert.deepEqual(sent.map((request) => [request.authorization, request.accessToken]), [['Bearer tok-1', 'az-1'], ['Bearer tok-2', 'az-2']]);
+    });
+  });
+
+  it('replays a late 401 with the token another request already refreshed', async () => {
+    api.reset((request) => (request.authorization === 'Bearer tok-1'
+      ? { status: 401, body: { message: 'token expired' }, delayMs: request.query.pageSize === '2' ? 1000 : 100 }
+      : { status: 200, body: { inboundPlans: [] } }));
+    await withServer(async (client) => {
+      const results: any[] = await Promise.all([1, 2].map((pageSize) => client.callTool({ name: 'listInboundPlans', arguments: { pageSize } })));
+      assert.deepEqual(results.map((result) => result.isError), [undefined, undefined]);
+      assert.equal(api.calls('/api/v2/token').length, 2);
+      assert.equal(api.calls('/api/az/access-token').length, 2);
+      const late = api.calls('/api/az/inbound/plans').filter((request) => request.query.pageSize === '2');
+      assert.deepEqual(late.map((request) => [request.authorization, request.accessToken]), [['Bearer tok-1', 'az-1'], ['Bearer tok-2', 'az-2']]);
+    });
+  });
+
+  it('rejects invalid arguments before fetching any token', async () => {
+    api.reset(() => ({ status: 200, body: { inboundPlans: [] } }));
+    await withServer(async (client) => {
+      const result: any = await client.callTool({ name: 'listInboundPlans', arguments: { pageSize: 99 } });
+      assert.equal(result.isError, true);
+      assert.match(result.content[0].text, /\/pageSize/);
+      assert.deepEqual(api.requests, []);
+    });
+  });
+
+  it('renders a dry run without fetching tokens or sending the request', async () => {
+    api.reset(() => ({ status: 200, body: { inboundPlans: [] } }));
+    await withServer(async (client) => {
+      const result: any = await client.callTool({ name: 'listInboundPlans', arguments: { pageSize: 10, dry_run: true } });
+      assert.equal(result.isError, undefined);
+      const { headers } = result.structuredContent.dryRun.request;
+      assert.equal(headers.Authorization, 'Bearer <managed token>');
+      assert.equal(headers['x-access-token'], '<managed>');
+      assert.deepEqual(result.structuredContent.dryRun.auth, { scheme: 'bearer', bearerSource: 'managed', amazonAccessToken: 'managed' });
+      assert.deepEqual(api.requests, []);
+    });
+  });
+
+  it('adds downloaded documents to the structured result', async () => {
+    api.reset(() => ({ status: 200, body: { labelUrl: `${api.url}/labels/1.pdf` } }));
+    await withServer(async (client) => {
+      const { tools } = await client.listTools();
+      assert.ok(tools.find((tool) => tool.name === 'getLabels')?.outputSchema?.properties?.documents);
+      const result: any = await client.callTool({ name: 'getLabels', arguments: { download: true } });
+      assert.deepEqual(result.structuredContent, { labelUrl: `${api.url}/labels/1.pdf`, documents: [] });
+      assert.ok(result.content.some((item: any) => /Could not download .*not an allowed download location/.test(item.text)));
+      assert.equal(api.calls('/labels/1.pdf').length, 0);
+    });
+  });
+
+  it('retries a rate-limited request after the Retry-After delay', async () => {
+    api.reset(() => (api.calls('/api/az/inbound/plans').length < 3
+      ? { status: 429, body: { message: 'slow down' }, headers: { 'Retry-After': '1' } }
+      : { status: 200, body: { inboundPlans: [] } }));
+    await withServer(async (client) => {
+      const started = Date.now();
+      const result: any = await client.callTool({ name: 'listInboundPlans', arguments: {} });
+      assert.equal(result.isError, undefined);
+      assert.equal(api.calls('/api/az/inbound/plans').length, 3);
+      assert.ok(Date.now() - started >= 2000);
+    }, { SCANPOWER_RETRY_BASE_MS: '1' });
+  });
+
+  it('applies per-operation retry settings whatever the tool is called', async () => {
+    api.reset(() => ({ status: 503, body: { message: 'unavailable' } }));
+    await withServer(async (client) => {
+      const result: any = await client.callTool({ name: 'list_inbound_plans', arguments: {} });
+      assert.equal(result.isError, true);
+      assert.equal(api.calls('/api/az/inbound/plans').length, 1);
+    }, { SCANPOWER_TOOL_NAMING: 'snake', SCANPOWER_RETRY_OPERATIONS: 'listInboundPlans=0', SCANPOWER_RETRY_BASE_MS: '1' });
+  });
+});
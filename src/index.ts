@@ -2,19 +2,85 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import {
   CallToolRequestSchema,
+  CallToolResult,
+  CompleteRequestSchema,
+  ElicitResultSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  ServerNotification,
+  ServerRequest,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import https from 'https';
-import fs from 'fs';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import dotenv from 'dotenv';
+import fs from 'fs';
+import { LoadedSpec, loadSpecIfChanged, readSpecFile, resolveSpecPath, SpecVersion } from './spec.js';
+import { fitToolName, legacyToolName, NamedOperation, NamingStrategy, namingStrategyFromEnv, toolAliasesFromEnv, ToolNameRegistry, toolNameFor } from './naming.js';
+import { LoadedSpecSource, loadSpecSources, SpecSource, sourceAuthHeaders, sourceBasicAuth } from './sources.js';
+import { diffTools, formatReloadResult, hasToolChanges, NO_CHANGES, RELOAD_TOOL, ReloadResult, ReloadTrigger, reloadIntervalMs, reloadToolEnabled, scheduleReload } from './reload.js';
+import { buildOutputSchema, derefObject, resolveSchema } from './schema.js';
+import { formatValidationProblems, validateOperationArguments, ValidationProblem } from './validate.js';
+import { buildElicitationSchema, collectMissingInputs, formatMissingInputs, MissingInput } from './elicit.js';
+import { getHttpsAgent } from './tls.js';
+import { httpAccessFromEnv, startHttpTransport } from './http.js';
+import { ToolFilter } from './toolsets.js';
+import { ConfirmationGate, OperationRisk } from './confirm.js';
+import { collectPages, detectPagination, paginationLimits, PaginationSummary } from './paginate.js';
+import { maxResponseBytes, parseFields, shapeResponse } from './shape.js';
+import { describeEncodedBody, encodeRequestBody, isJsonContentType, UploadPolicy, uploadPolicyFromEnv, withFileInputs } from './bodies.js';
+import {
+  decodeBody,
+  documentContent,
+  DocumentFile,
+  documentSummary,
+  downloadDocument,
+  downloadHostsFromEnv,
+  downloadRequested,
+  expectsBinary,
+  findDocumentUrls,
+  isDocumentOperation,
+  responseContentTypes,
+  saveDocument,
+} from './documents.js';
+import { completePromptArgument, getPrompt, listPrompts } from './prompts.js';
+import { OperationEntry, RESOURCE_TEMPLATES, ResourceCatalog } from './resources.js';
+import { buildDryRun, DryRunAuth, formatDryRun, isDryRunEnabled, MANAGED_ACCESS_TOKEN, MANAGED_TOKEN, redactHeaders, RenderedRequest } from './dryrun.js';
+import {
+  DEFAULT_WAIT_TIMEOUT_SECONDS,
+  findOperationId,
+  formatOperationOutcome,
+  isAsyncOperation,
+  OperationOutcome,
+  STATUS_OPERATION,
+  waitForOperation,
+  waitOptions,
+  waitRequested,
+} from './wait.js';
+import { formatMappedError, mapApiError } from './errors.js';
+import { addRedactedKeys, createLogger, redact } from './logger.js';
+import { isRetryableError, loadRetryConfig, maxRetriesFor, RetryConfig, retryDelayMs, RetryState, sleep } from './retry.js';
 
 // Load environment variables
 dotenv.config();
 
+const log = createLogger('SERVER');
+const apiLog = createLogger('API');
+const authLog = createLogger('AUTH');
+const toolsLog = createLogger('TOOLS');
+const retryLog = createLogger('RETRY');
+const confirmLog = createLogger('CONFIRM');
+const elicitLog = createLogger('ELICIT');
+const paginateLog = createLogger('PAGINATE');
+const waitLog = createLogger('WAIT');
+const specLog = createLogger('SPEC');
+
 interface ScanPowerConfig {
   baseUrl: string;
   username: string;
@@ -29,12 +95,73 @@ interface AmazonConfig {
   roleArn: string;
 }
 
+interface CachedToken {
+  value: string;
+  expiresAt: number; // epoch milliseconds
+}
+
+// Tokens are issued per proxy user, so each proxy context keeps its own cache
+interface TokenState {
+  apiToken: CachedToken | null;
+  amazonAccessToken: CachedToken | null;
+  // In-flight refreshes shared by concurrent callers
+  apiTokenRefresh: Promise<string> | null;
+  amazonTokenRefresh: Promise<string> | null;
+}
+
+// Marks which credentials of a request the client manages, so a 401/403 can refresh and replay them
+interface ManagedAuth {
+  bearer?: boolean;
+  amazonAccessToken?: boolean;
+  // The managed tokens the request was sent with
+  sentApiToken?: string;
+  sentAmazonAccessToken?: string;
+  proxyUserId?: string;
+  retried?: boolean;
+}
+
+// Per-request state read back by the response interceptor
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    managedAuth?: ManagedAuth;
+    retryState?: RetryState;
+  }
+}
+
+// Tokens are refreshed this long before they expire
+const TOKEN_REFRESH_SKEW_MS = 60_000;
+const DEFAULT_TOKEN_TTL_SECONDS = Number(process.env.SCANPOWER_TOKEN_TTL_SECONDS) || 3600;
+
+// Expiry from the token response, the JWT exp claim, or the configured default TTL
+function tokenExpiry(token: string, responseData?: any): number {
+  const expiresIn = Number(responseData?.expires_in);
+  if (Number.isFinite(expiresIn) && expiresIn > 0) {
+    return Date.now() + expiresIn * 1000;
+  }
+  const parts = token.split('.');
+  if (parts.length === 3) {
+    try {
+      const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+      if (typeof payload.exp === 'number') {
+        return payload.exp * 1000;
+      }
+    } catch {
+      // not a JWT
+    }
+  }
+  return Date.now() + DEFAULT_TOKEN_TTL_SECONDS * 1000;
+}
+
+function isFresh(token: CachedToken | null): token is CachedToken {
+  return !!token && token.expiresAt - TOKEN_REFRESH_SKEW_MS > Date.now();
+}
+
 class ScanPowerAPIClient {
   private client: AxiosInstance;
   private config: ScanPowerConfig;
   private amazonConfig: AmazonConfig;
-  private apiToken: string | null = null;
-  private amazonAccessToken: string | null = null;
+  private tokens: Map<string, TokenState> = new Map();
+  private retryConfig: RetryConfig = loadRetryConfig();
 
   constructor(config: ScanPowerConfig, amazonConfig: AmazonConfig) {
     this.config = config;
@@ -47,7 +174,7 @@ class ScanPowerAPIClient {
         'Content-Type': 'application/json',
         'User-Agent': 'ScanPower-MCP-Server/1.0.0',
       },
-      httpsAgent: new https.Agent({ rejectUnauthorized: false }),
+      httpsAgent: getHttpsAgent(),
     });
 
     // Add request interceptor for logging only (no path-based auth logic)
@@ -55,39 +182,19 @@ class ScanPowerAPIClient {
       // Ensure headers object exists
       config.headers = config.headers || {};
 
-      // Log the outgoing request with masked credentials for debugging
+      // Debug log of the outgoing request; the logger redacts credentials, tokens and PII
       try {
         const method = (config.method || 'GET').toUpperCase();
         const urlForLog = config.baseURL
           ? `${config.baseURL}${config.url || ''}`
           : (config.url || '');
-        const maskedHeaders: Record<string, any> = { ...(config.headers as any) };
-        if (maskedHeaders['Authorization']) {
-          const token = String(maskedHeaders['Authorization']);
-          if (token.toLowerCase().startsWith('basic ')) {
-            maskedHeaders['Authorization'] = 'Basic ***';
-          } else {
-            maskedHeaders['Authorization'] = token.replace(/(Bearer\s+)(.+)/i, (_m, p1, p2) => {
-              const tail = p2.slice(-4);
-              return `${p1}***${tail}`;
-            });
-          }
-        }
-        // Also log if auth option is set (axios will convert this to Authorization header)
-        if (config.auth) {
-          console.error('[HTTP REQUEST] Auth option present - username:', config.auth.username ? '***' : 'missing');
-        }
-        if (maskedHeaders['X-Access-Token']) {
-          const t = String(maskedHeaders['X-Access-Token']);
-          maskedHeaders['X-Access-Token'] = `***${t.slice(-4)}`;
-        }
-        console.error('[HTTP REQUEST]', JSON.stringify({
-          method,
-          url: urlForLog,
+        apiLog.debug(`${method} ${urlForLog}`, {
           params: config.params || undefined,
           data: config.data || undefined,
-          headers: maskedHeaders,
-        }));
+          headers: { ...(config.headers as any) },
+          // axios turns the auth option into a Basic Authorization header
+          basicAuth: config.auth ? true : undefined,
+        });
       } catch {
         // ignore logging errors
       }
@@ -100,67 +207,221 @@ class ScanPowerAPIClient {
       (response) => {
         return response;
       },
-      (error) => {
+      async (error) => {
         try {
           const status = error?.response?.status;
           const data = error?.response?.data;
           const req = error?.config || {};
           const method = (req.method || 'GET').toUpperCase();
           const urlForLog = req.baseURL ? `${req.baseURL}${req.url || ''}` : (req.url || '');
-          console.error('[HTTP ERROR]', JSON.stringify({ status, method, url: urlForLog, data }));
+          apiLog.warn(`${method} ${urlForLog} failed`, { status, code: status === undefined ? error?.code : undefined, data });
         } catch {
           // ignore logging errors
         }
+
+        // Re-authenticate once and replay requests whose managed tokens were rejected
+        const status = error?.response?.status;
+        const req: InternalAxiosRequestConfig | undefined = error?.config;
+        const managed = req?.managedAuth;
+        if ((status === 401 || status === 403) && managed && !managed.retried && (managed.bearer || managed.amazonAccessToken)) {
+          managed.retried = true;
+          try {
+            if (managed.bearer) {
+              req.headers['Authorization'] = `Bearer ${await this.replacementApiToken(managed.sentApiToken, managed.proxyUserId)}`;
+            }
+            if (managed.amazonAccessToken) {
+              req.headers['x-access-token'] = await this.replacementAmazonAccessToken(managed.sentAmazonAccessToken, managed.proxyUserId);
+            }
+          } catch (refreshError) {
+            authLog.error(`Token refresh after ${status} failed`, { error: refreshError instanceof Error ? refreshError.message : String(refreshError) });
+            return Promise.reject(error);
+          }
+          authLog.info(`Replaying ${(req.method || 'GET').toUpperCase()} ${req.url} with refreshed token after ${status}`);
+          return this.client.request(req);
+        }
+
+        // Retry rate limits and transient failures with backoff
+        if (req && isRetryableError(error)) {
+          const state = req.retryState || (req.retryState = { attempt: 0 });
+          const method = (req.method || 'GET').toUpperCase();
+          const maxRetries = maxRetriesFor(this.retryConfig, method, state.operationId);
+          if (state.attempt < maxRetries) {
+            const delay = retryDelayMs(this.retryConfig, state.attempt, error?.response?.headers);
+            const reason = status ?? error?.code;
+            if (delay === null) {
+              retryLog.warn(`${state.operationId || method} ${req.url} not retried: server asked to wait longer than ${this.retryConfig.maxDelayMs}ms after ${reason}`);
+            } else {
+              state.attempt++;
+              retryLog.info(`${state.operationId || method} ${req.url} attempt ${state.attempt}/${maxRetries} after ${reason}, waiting ${delay}ms`);
+              await sleep(delay);
+              return this.client.request(req);
+            }
+          }
+        }
         return Promise.reject(error);
       }
     );
   }
 
-  setApiToken(token: string): void {
-    this.apiToken = token;
+  // Proxy user configured for the deployment (SCANPOWER_PROXY_USER_ID), used when a session has not chosen one
+  get defaultProxyUserId(): string | undefined {
+    return this.config.proxyUserId;
+  }
+
+  get username(): string {
+    return this.config.username;
   }
 
-  setProxyUserId(proxyUserId: string | undefined): void {
-    this.config.proxyUserId = proxyUserId;
+  private tokenState(proxyUserId?: string): TokenState {
+    const key = proxyUserId || '';
+    let state = this.tokens.get(key);
+    if (!state) {
+      state = { apiToken: null, amazonAccessToken: null, apiTokenRefresh: null, amazonTokenRefresh: null };
+      this.tokens.set(key, state);
+    }
+    return state;
+  }
+
+  // Expiry of the cached bearer token for a proxy context, if one is cached
+  apiTokenExpiry(proxyUserId?: string): number | null {
+    return this.tokens.get(proxyUserId || '')?.apiToken?.expiresAt ?? null;
+  }
+
+  setApiToken(token: string, proxyUserId?: string): void {
+    this.tokenState(proxyUserId).apiToken = { value: token, expiresAt: tokenExpiry(token) };
+  }
+
+  // Current bearer token for the proxy context, refreshed ahead of expiry
+  async getApiToken(proxyUserId?: string): Promise<string> {
+    const state = this.tokenState(proxyUserId);
+    if (isFresh(state.apiToken)) {
+      return state.apiToken.value;
+    }
+    return this.refreshApiToken(proxyUserId);
+  }
+
+  // A token replacing the rejected one: the cached token when a concurrent request already refreshed it, otherwise a new one
+  private replacementApiToken(rejected: string | undefined, proxyUserId?: string): Promise<string> {
+    const state = this.tokenState(proxyUserId);
+    if (isFresh(state.apiToken) && state.apiToken.value !== rejected) {
+      return Promise.resolve(state.apiToken.value);
+    }
+    return this.refreshApiToken(proxyUserId);
   }
 
-  async authenticate(): Promise<void> {
+  refreshApiToken(proxyUserId?: string): Promise<string> {
+    const state = this.tokenState(proxyUserId);
+    if (!state.apiTokenRefresh) {
+      state.apiTokenRefresh = this.authenticate(proxyUserId)
+        .then(() => state.apiToken!.value)
+        .finally(() => {
+          state.apiTokenRefresh = null;
+        });
+    }
+    return state.apiTokenRefresh;
+  }
+
+  async authenticate(proxyUserId?: string): Promise<void> {
     try {
       const response = await this.client.get('/api/v2/token', {
         auth: {
           username: this.config.username,
           password: this.config.password,
         },
-        headers: this.config.proxyUserId ? {
-          'X-Proxy': this.config.proxyUserId,
+        headers: proxyUserId ? {
+          'X-Proxy': proxyUserId,
         } : {},
       });
 
-      this.apiToken = response.data.token;
+      // The endpoint has returned both a bare token string and { token }
+      const token = typeof response.data === 'string' ? response.data : response.data?.token;
+      if (!token) {
+        throw new Error('token endpoint returned no token');
+      }
+      this.tokenState(proxyUserId).apiToken = { value: token, expiresAt: tokenExpiry(token, response.data) };
     } catch (error) {
-      throw new Error(`Authentication failed: ${error}`);
+      throw new Error(`Authentication failed: ${error}`, { cause: error });
     }
   }
 
-  async getAmazonAccessToken(): Promise<string> {
-    if (this.amazonAccessToken) {
-      return this.amazonAccessToken;
+  // Current Amazon access token for the proxy context, refreshed ahead of expiry
+  async getAmazonAccessToken(proxyUserId?: string): Promise<string> {
+    const state = this.tokenState(proxyUserId);
+    if (isFresh(state.amazonAccessToken)) {
+      return state.amazonAccessToken.value;
     }
+    return this.refreshAmazonAccessToken(proxyUserId);
+  }
 
+  private replacementAmazonAccessToken(rejected: string | undefined, proxyUserId?: string): Promise<string> {
+    const state = this.tokenState(proxyUserId);
+    if (isFresh(state.amazonAccessToken) && state.amazonAccessToken.value !== rejected) {
+      return Promise.resolve(state.amazonAccessToken.value);
+    }
+    return this.refreshAmazonAccessToken(proxyUserId);
+  }
+
+  refreshAmazonAccessToken(proxyUserId?: string): Promise<string> {
+    const state = this.tokenState(proxyUserId);
+    if (!state.amazonTokenRefresh) {
+      state.amazonTokenRefresh = this.fetchAmazonAccessToken(proxyUserId).finally(() => {
+        state.amazonTokenRefresh = null;
+      });
+    }
+    return state.amazonTokenRefresh;
+  }
+
+  private async fetchAmazonAccessToken(proxyUserId?: string): Promise<string> {
     try {
+      const apiToken = await this.getApiToken(proxyUserId);
       const response = await this.client.get('/api/az/access-token', {
         params: {
           marketplace: this.amazonConfig.marketplaceId,
         },
+        headers: {
+          Authorization: `Bearer ${apiToken}`,
+          ...(proxyUserId ? { 'X-Proxy': proxyUserId } : {}),
+        },
+        managedAuth: { bearer: true, sentApiToken: apiToken, proxyUserId },
       });
 
-      this.amazonAccessToken = response.data.access_token;
-      return this.amazonAccessToken!;
+      const token = response.data.access_token;
+      this.tokenState(proxyUserId).amazonAccessToken = { value: token, expiresAt: tokenExpiry(token, response.data) };
+      return token;
     } catch (error) {
-      throw new Error(`Failed to get Amazon access token: ${error}`);
+      throw new Error(`Failed to get Amazon access token: ${error}`, { cause: error });
     }
   }
 
+  async request<T = any>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return this.client.request<T>(config);
+  }
+
+  // Absolute URL and merged headers the client would send for a request config, before redaction
+  renderRequest(config: any): RenderedRequest {
+    const method = String(config.method || 'GET').toUpperCase();
+    const defaults: any = this.client.defaults.headers;
+    const headers: Record<string, string> = {};
+    const merge = (source: any) => {
+      for (const [name, value] of Object.entries(source || {})) {
+        if (value === undefined || value === null || typeof value === 'object' || typeof value === 'function') continue;
+        headers[name] = String(value);
+      }
+    };
+    merge(defaults);
+    merge(defaults.common);
+    merge(defaults[method.toLowerCase()]);
+    merge(config.headers);
+    if (config.auth) {
+      headers['Authorization'] = `Basic ${Buffer.from(`${config.auth.username}:${config.auth.password}`).toString('base64')}`;
+    }
+    // No body, no Content-Type; multipart gets its boundary from the encoder
+    if (config.data === undefined || config.data instanceof FormData) {
+      delete headers['Content-Type'];
+    }
+    return { method, url: this.client.getUri(config), headers, ...describeEncodedBody(config.data) };
+  }
+
   async makeRequest<T = any>(
     method: 'GET' | 'POST' | 'PUT' | 'DELETE',
     endpoint: string,
@@ -184,13 +445,116 @@ class ScanPowerAPIClient {
   }
 }
 
+// Session key for the stdio transport, which has no session id
+const STDIO_SESSION = 'stdio';
+
+const WHOAMI_TOOL: Tool = {
+  name: 'whoami',
+  description: 'Report the ScanPower user and the proxy user active for this session',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      proxy_user_id: { type: 'string', description: 'Optional proxy user to resolve instead of the session proxy' },
+    },
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      user: { type: ['string', 'null'] },
+      proxyUserId: { type: ['string', 'null'] },
+      proxySource: { type: 'string', enum: ['none', 'session', 'environment', 'call'] },
+      session: { type: 'string' },
+      apiToken: {
+        type: 'object',
+        properties: { cached: { type: 'boolean' }, expiresAt: { type: 'string', format: 'date-time' } },
+      },
+    },
+  },
+  annotations: { readOnlyHint: true },
+};
+
+// getProxyUsers returns a normalized list plus the session's selection instead of the raw account payload
+const PROXY_USERS_OUTPUT_SCHEMA: Tool['outputSchema'] = {
+  type: 'object',
+  properties: {
+    proxyUsers: {
+      type: 'array',
+      items: { type: 'object', properties: { id: { type: 'string' }, name: { type: 'string' } } },
+    },
+    selected: { type: ['string', 'null'], description: 'Proxy user selected for this session' },
+  },
+};
+
+// Final status of an asynchronous operation, added to results of calls made with wait
+const OPERATION_OUTCOME_SCHEMA = {
+  type: 'object',
+  properties: {
+    operationId: { type: 'string' },
+    operationStatus: { type: 'string' },
+    operationProblems: { type: 'array', items: { type: 'object' } },
+    timedOut: { type: 'boolean' },
+    polls: { type: 'integer' },
+    elapsedMs: { type: 'integer' },
+  },
+};
+
+// Files fetched with download, added to results of document operations
+const DOWNLOADED_DOCUMENTS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      format: { type: 'string' },
+      mimeType: { type: 'string' },
+      bytes: { type: 'integer' },
+      path: { type: 'string' },
+      source: { type: 'string' },
+    },
+  },
+};
+
+// Everything generated from one spec version, swapped in together
+interface GeneratedTools {
+  tools: Tool[];
+  operationMap: Map<string, any>;
+  aliases: Map<string, string>; // alias -> tool name
+  toolNames: Map<string, string>; // operationId -> tool name
+  resourceCatalog: ResourceCatalog;
+}
+
+// Names of the tools the server defines itself; spec operations can't take them
+const RESERVED_TOOL_NAMES = [WHOAMI_TOOL.name, RELOAD_TOOL.name];
+
+// structuredContent must be an object; other results are wrapped as { result } to match the output schema
+function toStructuredContent(value: any, wrapped: boolean): Record<string, unknown> {
+  const isPlainObject = !!value && typeof value === 'object' && !Array.isArray(value);
+  return wrapped || !isPlainObject ? { result: value } : value;
+}
+
 class ScanPowerMCPServer {
-  private server: Server;
   private apiClient: ScanPowerAPIClient;
-  private openApi: any | null = null;
   private operationMap: Map<string, any> = new Map();
+  private toolAliases: Map<string, string> = new Map();
+  private toolNames: Map<string, string> = new Map();
   private generatedTools: Tool[] = [];
+  private resourceCatalog: ResourceCatalog = ResourceCatalog.empty();
   private isReady: boolean = false;
+  private sources: SpecSource[] = loadSpecSources();
+  private downloadHosts: string[] = downloadHostsFromEnv(this.sources.map((source) => source.baseUrl));
+  // The spec live for each source, and the version it was loaded at
+  private specs: LoadedSpecSource[] = [];
+  private specVersions: Map<string, SpecVersion> = new Map();
+  private reloading: Promise<ReloadResult> | null = null;
+  // Connected MCP servers (one per session), notified when a reload changes the lists
+  private servers: Set<Server> = new Set();
+  private toolFilter: ToolFilter = ToolFilter.fromEnv();
+  private naming: NamingStrategy = namingStrategyFromEnv();
+  private configuredAliases: Array<[string, string]> = toolAliasesFromEnv();
+  private confirmationGate: ConfirmationGate = ConfirmationGate.fromEnv();
+  private maxResponseBytes: number = maxResponseBytes();
+  private uploadPolicy: UploadPolicy = uploadPolicyFromEnv((process.env.SCANPOWER_MCP_TRANSPORT || 'stdio').toLowerCase());
+  // Proxy user chosen per MCP session; null means the session explicitly cleared it
+  private sessionProxies: Map<string, string | null> = new Map();
 
   constructor() {
     const scanPowerConfig: ScanPowerConfig = {
@@ -208,30 +572,66 @@ class ScanPowerMCPServer {
     };
 
     this.apiClient = new ScanPowerAPIClient(scanPowerConfig, amazonConfig);
+    // Credential headers of configured sources are kept out of logs and dry runs
+    addRedactedKeys(this.sources.flatMap((source) => (source.auth.type === 'header' ? [source.auth.header] : [])));
+  }
 
-    this.server = new Server(
+  // One MCP server per client session (stdio has exactly one); all of them share the API client and tools
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'scanpower-mcp-server',
         version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: { listChanged: true },
+          resources: { listChanged: true },
+          prompts: { listChanged: true },
+          completions: {},
+        },
       }
     );
 
-    this.setupHandlers();
+    this.setupHandlers(server);
+    this.servers.add(server);
+    server.onclose = () => {
+      this.servers.delete(server);
+    };
+    return server;
   }
 
-  private setupHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private setupHandlers(server: Server): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       if (!this.isReady) {
         return {
           tools: [],
         };
       }
       return {
-        tools: this.generatedTools,
+        tools: [...this.generatedTools, WHOAMI_TOOL, ...(this.offersReloadTool() ? [RELOAD_TOOL] : [])],
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    // Spec and operation docs, so agents can read full details on demand instead of via tool descriptions
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: this.resourceCatalog.list() }));
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({ resourceTemplates: RESOURCE_TEMPLATES }));
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => this.resourceCatalog.read(request.params.uri));
+
+    // Guided multi-step workflows (FBA and Walmart inbound)
+    const resolveTool = (operationId: string) => this.toolNames.get(operationId);
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: listPrompts(resolveTool) }));
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => getPrompt(request.params.name, request.params.arguments, resolveTool));
+
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+      const values = ref.type === 'ref/resource'
+        ? this.resourceCatalog.complete(argument.name, argument.value)
+        : completePromptArgument(ref.name, argument.name, argument.value);
+      return { completion: { values, hasMore: false } };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       if (!this.isReady) {
         return {
           content: [
@@ -244,8 +644,12 @@ class ScanPowerMCPServer {
         };
       }
 
-      const { name, arguments: args } = request.params;
+      const { arguments: args } = request.params;
+      // Old and configured names resolve to the tool they stand for
+      const name = this.toolAliases.get(request.params.name) ?? request.params.name;
       const typedArgs = args as Record<string, any> | undefined;
+      // A reload swaps in a new map; this call keeps using the operations it started with
+      const operationMap = this.operationMap;
 
       let urlPath: string = '';
       let queryParams: Record<string, any> = {};
@@ -253,45 +657,73 @@ class ScanPowerMCPServer {
       let data: any = undefined;
       let op: any = null;
 
+      const sessionKey = extra.sessionId ?? STDIO_SESSION;
+
       try {
-        // If a proxy_user_id is provided, set it immediately so subsequent calls use it
-        if (typedArgs && typeof typedArgs.proxy_user_id === 'string' && typedArgs.proxy_user_id.trim().length > 0) {
-          this.apiClient.setProxyUserId(typedArgs.proxy_user_id.trim());
-          console.error('[AUTH] Proxy user set to:', typedArgs.proxy_user_id.trim());
-          // If the intent was just to set proxy, acknowledge and return early with confirmation
-          if (name === 'getProxyUsers') {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `✅ Proxy user successfully set to: ${typedArgs.proxy_user_id.trim()}\n\nThis proxy user will be used for all subsequent API calls until changed.`,
-                },
-              ],
-            };
-          }
+        op = operationMap.get(name);
+        const isProxyUsers = op?.operationId === 'getProxyUsers';
+
+        // getProxyUsers with proxy_user_id selects the proxy for the rest of this session only
+        if (isProxyUsers && typedArgs && typeof typedArgs.proxy_user_id === 'string') {
+          const selected = typedArgs.proxy_user_id.trim();
+          this.sessionProxies.set(sessionKey, selected || null);
+          authLog.info(`Session ${sessionKey} proxy user ${selected ? 'set' : 'cleared'}`, { proxyUserId: selected || undefined });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: selected
+                  ? `✅ Proxy user successfully set to: ${selected}\n\nThis proxy user will be used for subsequent API calls in this session until changed.`
+                  : '✅ Proxy user cleared. Subsequent API calls in this session run as the authenticated user.',
+              },
+            ],
+            structuredContent: { selected: selected || null },
+          };
         }
-        op = this.operationMap.get(name);
+
+        // Proxy users are always listed as the authenticated (parent) user
+        const proxyUserId = isProxyUsers ? undefined : this.resolveProxyUserId(sessionKey, typedArgs);
+
+        if (name === WHOAMI_TOOL.name) {
+          return this.whoami(sessionKey, proxyUserId);
+        }
+
+        if (name === RELOAD_TOOL.name && this.offersReloadTool()) {
+          const result = await this.reloadSpec('tool');
+          return {
+            content: [{ type: 'text', text: formatReloadResult(result) }],
+            structuredContent: { ...result },
+            isError: result.status === 'failed',
+          };
+        }
+
         if (!op) {
           throw new Error(`Unknown tool: ${name}`);
         }
 
-        const argsOrEmpty = typedArgs || {};
+        const argsOrEmpty: Record<string, any> = { ...(typedArgs || {}) };
+
+        // Ask the client for missing inputs where it supports elicitation, otherwise report them
+        const missingInputs = collectMissingInputs(op, argsOrEmpty);
+        if (missingInputs.length > 0) {
+          const elicited = await this.elicitMissingInputs(server, name, missingInputs, extra);
+          if (!elicited) {
+            return this.missingInputsResult(name, missingInputs);
+          }
+          Object.assign(argsOrEmpty, elicited);
+        }
+
+        // Per-call dry_run or SCANPOWER_DRY_RUN: resolve everything, then return the request instead of sending it
+        const dryRun = isDryRunEnabled(argsOrEmpty);
 
         // Build URL with path params
         // Use stored flag indicating if original path had trailing slash
         const originalPathHasTrailingSlash = op.pathHasTrailingSlash === true;
-        console.error('originalPathHasTrailingSlash', originalPathHasTrailingSlash);
-        console.error('op.path', op.path);
         urlPath = op.path;
-        const missingInputs: Array<{ name: string; description?: string; in?: string; schema?: any }> = [];
         if (op.pathParams && op.pathParams.length > 0) {
           for (const p of op.pathParams) {
             const v = argsOrEmpty[p] ?? argsOrEmpty[p.replace(/[-.]/g, '_')];
-            if (v === undefined) {
-              // Collect for elicitation instead of throwing
-              const def = (op.paramDefs?.path || []).find((pd: any) => pd.name === p);
-              missingInputs.push({ name: p.replace(/[-.]/g, '_'), description: def?.description, in: 'path', schema: def?.schema });
-            } else {
+            if (v !== undefined) {
               urlPath = urlPath.replace(`{${p}}`, encodeURIComponent(String(v)));
             }
           }
@@ -308,70 +740,123 @@ class ScanPowerMCPServer {
             const val = argsOrEmpty[q] ?? argsOrEmpty[q.replace(/[-.]/g, '_')];
             if (val !== undefined) {
               queryParams[q] = val;
-            } else {
-              // If required by spec, elicit
-              const def = (op.paramDefs?.query || []).find((pd: any) => pd.name === q);
-              if (def?.required) missingInputs.push({ name: q.replace(/[-.]/g, '_'), description: def?.description, in: 'query', schema: def?.schema });
             }
           }
         }
 
         // Headers (from parameters only; security handled below)
         headers = {};
+        const managedAuth: ManagedAuth = { proxyUserId };
+        // Managed tokens, X-Proxy and the spec's security schemes only apply to ScanPower-authenticated sources
+        const specSource: SpecSource = op.specSource;
+        const scanPowerAuth = specSource.auth.type === 'scanpower';
+        const missingHeaders: MissingInput[] = [];
+        const requireHeader = (h: string) => {
+          const def = (op.paramDefs?.header || []).find((pd: any) => pd.name === h);
+          if (def?.required) {
+            missingHeaders.push({ name: h.replace(/[-.]/g, '_'), description: def?.description, in: 'header', schema: def?.schema });
+          }
+        };
         if (op.headerParams && op.headerParams.length > 0) {
           for (const h of op.headerParams) {
-            let val = argsOrEmpty[h] ?? argsOrEmpty[h.replace(/[-.]/g, '_')];
-            
-            // Special case: x-access-token uses amazonAccessToken
-            if (h === 'x-access-token' && !val) {
-              // Try to get Amazon access token if not provided
-              if (!this.apiClient['amazonAccessToken']) {
-                try {
-                  await this.apiClient.getAmazonAccessToken();
-                } catch (error) {
-                  // If we can't get Amazon token, continue without it
-                }
-              }
-              val = this.apiClient['amazonAccessToken'];
-            }
-            
-            if (val !== undefined) {
+            const val = argsOrEmpty[h] ?? argsOrEmpty[h.replace(/[-.]/g, '_')];
+
+            // Special case: x-access-token defaults to the managed Amazon token, fetched once the arguments are valid
+            if (scanPowerAuth && h === 'x-access-token' && !val) {
+              managedAuth.amazonAccessToken = true;
+            } else if (val !== undefined) {
               headers[h] = val;
             } else {
-              const def = (op.paramDefs?.header || []).find((pd: any) => pd.name === h);
-              if (def?.required) {
-                missingInputs.push({ name: h.replace(/[-.]/g, '_'), description: def?.description, in: 'header', schema: def?.schema });
-              }
+              requireHeader(h);
             }
           }
         }
 
         // Request body
         data = argsOrEmpty.body !== undefined ? argsOrEmpty.body : undefined;
-        if (op.bodyRequired && data === undefined) {
-          missingInputs.push({ name: 'body', description: 'Request body', in: 'body', schema: op.bodySchema || { type: 'object' } });
+
+        // Every request in a proxy context carries X-Proxy, not just the token request
+        if (scanPowerAuth && proxyUserId) {
+          headers['X-Proxy'] = proxyUserId;
         }
 
-        // Elicit missing inputs (exclude tokens)
-        const filteredMissing = missingInputs.filter((mi) => mi.name !== 'api_token');
-        if (filteredMissing.length > 0) {
-            return {
-            content: [],
-            requires: filteredMissing.map((mi) => ({ name: mi.name, description: mi.description, schema: mi.schema })),
-            isError: false,
-          } as any;
+        // Body content type: content_type when the operation accepts several, otherwise its only (or JSON) type
+        const bodyContentType: string | undefined = op.hasBody
+          ? typeof argsOrEmpty.content_type === 'string' && argsOrEmpty.content_type ? argsOrEmpty.content_type : op.defaultContentType
+          : undefined;
+
+        // Validate arguments against the operation's schemas before sending anything
+        const problems: ValidationProblem[] = bodyContentType && !(bodyContentType in op.bodyContent)
+          ? [{ pointer: '/content_type', message: 'Unsupported request content type', expected: Object.keys(op.bodyContent) }]
+          : validateOperationArguments(
+            bodyContentType ? { ...op, bodySchema: withFileInputs(op.bodyContent[bodyContentType]) } : op,
+            argsOrEmpty
+          );
+
+        // Multipart, form-urlencoded and raw bodies are encoded here (reading any files); JSON is left to axios
+        if (problems.length === 0 && data !== undefined && bodyContentType && !isJsonContentType(bodyContentType)) {
+          try {
+            data = encodeRequestBody(bodyContentType, data, op.bodyContent[bodyContentType], this.uploadPolicy);
+          } catch (err) {
+            problems.push({ pointer: '/body', message: err instanceof Error ? err.message : String(err) });
+          }
+        }
+        if (data !== undefined && bodyContentType && bodyContentType !== 'application/json' && bodyContentType !== '*/*') {
+          headers['Content-Type'] = bodyContentType;
+        }
+
+        if (problems.length > 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `${formatValidationProblems(name, problems)}\n\n${JSON.stringify({ problems }, null, 2)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (managedAuth.amazonAccessToken && dryRun) {
+          headers['x-access-token'] = MANAGED_ACCESS_TOKEN;
+        } else if (managedAuth.amazonAccessToken) {
+          try {
+            headers['x-access-token'] = managedAuth.sentAmazonAccessToken = await this.apiClient.getAmazonAccessToken(proxyUserId);
+          } catch (error) {
+            // If we can't get the Amazon token, continue without it
+            managedAuth.amazonAccessToken = false;
+            requireHeader('x-access-token');
+          }
+        }
+
+        // Only reached when x-access-token could not be obtained automatically
+        if (missingHeaders.length > 0) {
+          return this.missingInputsResult(name, missingHeaders);
+        }
+
+        // Write and destructive calls wait for an explicit confirmation
+        if (!dryRun && this.confirmationGate.requires(op.risk)) {
+          const held = await this.confirmCall(server, sessionKey, name, op, urlPath, argsOrEmpty, extra);
+          if (held) {
+            return held;
+          }
+        }
+
+        // Other sources send the credentials configured for them
+        if (!scanPowerAuth) {
+          Object.assign(headers, sourceAuthHeaders(specSource));
         }
 
         // Apply per-operation security based on OpenAPI spec
         const security = op.security as any[] | undefined;
         let useBasicAuth = false;
-        if (security && security.length > 0) {
+        if (scanPowerAuth && security && security.length > 0) {
           // Security is an array of requirement objects; treat as OR, pick first applicable
           const requirement = security[0];
           
           // First, check if any scheme requires basic_auth (priority check)
           for (const schemeName of Object.keys(requirement)) {
-            const scheme = this.openApi?.components?.securitySchemes?.[schemeName];
+            const scheme = op.securitySchemes?.[schemeName];
             if (!scheme) continue;
             const type = String(scheme.type || '').toLowerCase();
             // Check for basic auth in http, https, or any scheme that specifies 'basic'
@@ -393,24 +878,24 @@ class ScanPowerMCPServer {
           // If basic auth is required, explicitly remove Authorization header
           if (useBasicAuth) {
             delete headers['Authorization'];
-            console.error('[AUTH] Using basic_auth for operation:', name, 'path:', urlPath);
+            authLog.debug(`Using basic auth for ${name} ${urlPath}`);
           } else {
             // If basic auth is not required, check for bearer token
             for (const schemeName of Object.keys(requirement)) {
-              const scheme = this.openApi?.components?.securitySchemes?.[schemeName];
+              const scheme = op.securitySchemes?.[schemeName];
               if (!scheme) continue;
               const type = String(scheme.type || '').toLowerCase();
               // Check for bearer auth in http, https, or any scheme that specifies 'bearer'
               if (type === 'http' || type === 'https') {
                 const httpScheme = String(scheme.scheme || '').toLowerCase();
                 if (httpScheme === 'bearer') {
-                  const token = argsOrEmpty.api_token || this.apiClient['apiToken'];
-                  if (!token) {
-                    // Attempt authenticate to obtain token
-                    await this.apiClient.authenticate();
-                  }
-                  const finalToken = argsOrEmpty.api_token || this.apiClient['apiToken'];
+                  // An explicit api_token is used as-is; otherwise the managed token is refreshed as needed (dry runs only name it)
+                  const finalToken = argsOrEmpty.api_token || (dryRun ? MANAGED_TOKEN : await this.apiClient.getApiToken(proxyUserId));
                   if (!finalToken) throw new Error('Missing bearer token (api_token)');
+                  if (!argsOrEmpty.api_token) {
+                    managedAuth.bearer = true;
+                    managedAuth.sentApiToken = finalToken;
+                  }
                   headers['Authorization'] = `Bearer ${finalToken}`;
                   break; // Only need one bearer token
                 }
@@ -426,8 +911,15 @@ class ScanPowerMCPServer {
           params: Object.keys(queryParams).length ? queryParams : undefined,
           data,
           headers,
+          managedAuth,
+          retryState: { operationId: op.operationId, attempt: 0 },
+          // Labels and documents need the raw bytes
+          responseType: op.binaryResponse ? 'arraybuffer' : undefined,
+          baseURL: specSource.baseUrl,
         };
-        if (op.useBasicAuth === true) {
+        if (!scanPowerAuth) {
+          axiosConfig.auth = sourceBasicAuth(specSource);
+        } else if (op.useBasicAuth === true) {
           const username = this.apiClient['config'].username;
           const password = this.apiClient['config'].password;
           if (!username || !password) {
@@ -437,13 +929,76 @@ class ScanPowerMCPServer {
             username,
             password,
           };
-          console.error('[AUTH] Basic auth credentials configured for:', urlPath, 'username:', username);
         }
 
-        const response = await this.apiClient['client'].request(axiosConfig);
+        if (dryRun) {
+          const rendered = this.apiClient.renderRequest(axiosConfig);
+          const auth: DryRunAuth = {
+            scheme: axiosConfig.auth ? 'basic' : headers['Authorization'] ? 'bearer' : specSource.auth.type === 'header' ? 'header' : 'none',
+          };
+          if (auth.scheme === 'bearer') {
+            auth.bearerSource = !scanPowerAuth ? 'environment' : managedAuth.bearer ? 'managed' : 'api_token';
+          }
+          if (headers['x-access-token']) {
+            auth.amazonAccessToken = managedAuth.amazonAccessToken ? 'managed' : 'argument';
+          }
+          const dryRunResult = buildDryRun(name, { ...rendered, headers: redactHeaders(rendered.headers) }, auth);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatDryRun(dryRunResult),
+              },
+            ],
+            structuredContent: { dryRun: dryRunResult },
+          };
+        }
+
+        const response = await this.apiClient.request(axiosConfig);
+
+        // PDFs, images and ZPL are returned as documents rather than stringified
+        let responseData = response.data;
+        if (op.documentOperation) {
+          const decoded = decodeBody(response.data, String(response.headers['content-type'] || ''));
+          if (decoded.kind === 'document') {
+            return this.documentsResult(name, [decoded.document]);
+          }
+          responseData = decoded.data;
+        }
+
+        // all_pages: follow the operation's pagination and concatenate every page into one result
+        let paginationSummary: PaginationSummary | undefined;
+        if (op.pagination && (argsOrEmpty.all_pages === true || argsOrEmpty.all_pages === 'true')) {
+          const pagination = op.pagination;
+          const fetchPage = async (pageParams: Record<string, any>) => {
+            const pageConfig: any = {
+              ...axiosConfig,
+              managedAuth: { ...managedAuth },
+              retryState: { operationId: op.operationId, attempt: 0 },
+            };
+            if (pagination.location === 'query') {
+              pageConfig.params = { ...queryParams, ...pageParams };
+            } else {
+              pageConfig.data = { ...(data || {}), ...pageParams };
+            }
+            return (await this.apiClient.request(pageConfig)).data;
+          };
+          const currentArgs = pagination.location === 'query' ? queryParams : data || {};
+          const collected = await collectPages(responseData, pagination, currentArgs, paginationLimits(argsOrEmpty), fetchPage);
+          responseData = collected.data;
+          paginationSummary = collected.summary;
+          paginateLog.info(`${name}: ${paginationSummary.pages} page(s), ${paginationSummary.items} item(s)${paginationSummary.stoppedBy ? `, stopped by ${paginationSummary.stoppedBy}` : ''}`);
+        }
+
+        // wait: poll the status operation until the asynchronous operation finishes
+        let operationOutcome: OperationOutcome | undefined;
+        const asyncOperationId = op.asyncOperation && waitRequested(argsOrEmpty) ? findOperationId(responseData) : undefined;
+        if (asyncOperationId) {
+          operationOutcome = await this.awaitOperation(name, operationMap.get(op.statusTool), asyncOperationId, axiosConfig, managedAuth, argsOrEmpty, extra);
+        }
 
         // Special behavior: for getProxyUsers, return formatted list with selection instructions
-        if (name === 'getProxyUsers') {
+        if (isProxyUsers) {
           const dataOut = response.data;
           let users: Array<{ id: string; name?: string }> = [];
           if (Array.isArray(dataOut)) {
@@ -459,108 +1014,405 @@ class ScanPowerMCPServer {
           if (users.length > 0) {
             // Format the response to include structured data and instructions
             const usersList = users.map((u, idx) => `${idx + 1}. ${u.name || 'Unnamed'} (ID: ${u.id})`).join('\n');
-            const responseText = `Available Proxy Users:\n\n${usersList}\n\nTo set a proxy user for subsequent API calls, call getProxyUsers again with the 'proxy_user_id' parameter set to one of the IDs above.\n\nExample: Call getProxyUsers with arguments: {"proxy_user_id": "${users[0].id}"}`;
-            
-            // Also include structured JSON for parsing
+            const responseText = `Available Proxy Users:\n\n${usersList}\n\nTo set a proxy user for subsequent API calls in this session, call ${name} again with the 'proxy_user_id' parameter set to one of the IDs above.\n\nExample: Call ${name} with arguments: {"proxy_user_id": "${users[0].id}"}`;
+
             return {
               content: [
                 {
                   type: 'text',
                   text: responseText,
                 },
-                {
-                  type: 'text',
-                  text: `\n\n[STRUCTURED_DATA]\n${JSON.stringify({ proxyUsers: users, selected: null }, null, 2)}\n[/STRUCTURED_DATA]`,
-                },
               ],
+              structuredContent: { proxyUsers: users, selected: this.sessionProxies.get(sessionKey) ?? null },
             };
           }
           // If no users found, fall through to return raw data
         }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(response.data, null, 2),
-            },
-          ],
-        };
+        // Project, limit and size-cap the body so large payloads don't flood the client context
+        const shapeArgs = op.shapeArgs;
+        const pageHint = op.pagination
+          ? `, or request smaller pages${op.pagination.sizeParam ? ` with "${op.pagination.sizeParam}"` : ''} and continue with "${op.pagination.param}"`
+          : '';
+        const shaped = shapeResponse(responseData, {
+          fields: parseFields(argsOrEmpty[shapeArgs.fields]),
+          limit: argsOrEmpty[shapeArgs.limit] !== undefined ? Math.max(0, Math.floor(Number(argsOrEmpty[shapeArgs.limit])) || 0) : undefined,
+          maxBytes: this.maxResponseBytes,
+          hint: `To fetch the rest: select fewer properties with "${shapeArgs.fields}", adjust "${shapeArgs.limit}"${pageHint}.`,
+        });
+        const content: CallToolResult['content'] = [
+          {
+            type: 'text',
+            text: shaped.text,
+          },
+        ];
+        if (shaped.notice) {
+          content.push({ type: 'text', text: shaped.notice });
+        }
+        if (paginationSummary) {
+          const resume = paginationSummary.next
+            ? ` Call again with ${JSON.stringify(paginationSummary.next)} to continue.`
+            : '';
+          content.push({
+            type: 'text',
+            text: `Fetched ${paginationSummary.pages} page(s), ${paginationSummary.items} item(s)${paginationSummary.complete ? '.' : ` (stopped by ${paginationSummary.stoppedBy}).${resume}`}\n${JSON.stringify({ pagination: paginationSummary }, null, 2)}`,
+          });
+        }
+        // Optionally fetch the label/document files a JSON response links to (presigned URLs)
+        let downloaded: CallToolResult | undefined;
+        if (op.documentOperation && downloadRequested(argsOrEmpty)) {
+          const urls = findDocumentUrls(responseData);
+          const documents: DocumentFile[] = [];
+          for (const url of urls) {
+            try {
+              documents.push(await downloadDocument(url, this.downloadHosts));
+            } catch (error) {
+              content.push({ type: 'text', text: `Could not download ${url.split('?')[0]}: ${error instanceof Error ? error.message : error}` });
+            }
+          }
+          if (urls.length === 0) {
+            content.push({ type: 'text', text: 'No document URLs found in the response to download.' });
+          }
+          downloaded = this.documentsResult(name, documents);
+          content.push(...downloaded.content);
+        }
+
+        // Typed data next to the text; a response cut mid-JSON has none to offer
+        const structuredContent = shaped.value === undefined ? {} : toStructuredContent(shaped.value, op.outputWrapped === true);
+        if (downloaded) {
+          structuredContent.documents = downloaded.structuredContent?.documents;
+        }
+        if (operationOutcome) {
+          content.push({ type: 'text', text: formatOperationOutcome(operationOutcome, op.statusTool) });
+          structuredContent.operation = operationOutcome;
+          // The request was accepted but the operation itself failed; don't let the caller carry on
+          if (operationOutcome.operationStatus === 'FAILED') {
+            return { content, structuredContent, isError: true };
+          }
+        }
+        return { content, structuredContent };
       } catch (error) {
-        // Build full request details for debugging
-        const requestDetails = {
+        // Status, upstream error entries, request id and a hint for the client; the request itself only goes to the log
+        const mapped = mapApiError(error, name);
+        const requestDetails = redact({
           toolName: name,
           arguments: typedArgs,
           axiosConfig: {
-            method: op.method,
+            method: op?.method,
             url: urlPath,
             params: Object.keys(queryParams).length ? queryParams : undefined,
             data,
             headers,
           },
-        };  
-        console.error('Request Details:', JSON.stringify(requestDetails, null, 2));
+        });
+        toolsLog.error(`${name} failed: ${mapped.message}`, { category: mapped.category, requestId: mapped.requestId, request: requestDetails });
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}\n\nFull Request Details:\n${JSON.stringify(requestDetails, null, 2)}`,
+              text: formatMappedError(name, mapped),
             },
           ],
+          structuredContent: { error: mapped },
           isError: true,
         };
       }
     });
   }
 
-  private async loadOpenApiAndGenerateTools(): Promise<void> {
-    const specSource = process.env.SCANPOWER_OPENAPI_SPEC;
+  // Poll the status operation with the original call's headers and credentials (same API, same proxy user)
+  private async awaitOperation(
+    toolName: string,
+    statusOp: any,
+    operationId: string,
+    baseConfig: any,
+    managedAuth: ManagedAuth,
+    args: Record<string, any>,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): Promise<OperationOutcome> {
+    let url: string = statusOp.path;
+    for (const p of statusOp.pathParams || []) {
+      url = url.replace(`{${p}}`, encodeURIComponent(operationId));
+    }
+    const headers = { ...baseConfig.headers };
+    delete headers['Content-Type'];
+
+    const fetchStatus = async () => {
+      const response = await this.apiClient.request({
+        ...baseConfig,
+        method: statusOp.method,
+        url,
+        params: undefined,
+        data: undefined,
+        headers,
+        responseType: undefined,
+        managedAuth: { ...managedAuth },
+        retryState: { operationId: STATUS_OPERATION, attempt: 0 },
+      });
+      return response.data;
+    };
+
+    // Progress notifications keep clients that reset their timeout on progress from giving up
+    const progressToken = extra._meta?.progressToken;
+    const onPoll = progressToken === undefined
+      ? undefined
+      : async (polls: number, status: string | undefined) => {
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress: polls, message: `${toolName}: operation ${operationId} is ${status || 'pending'}` },
+        });
+      };
+
+    const outcome = await waitForOperation(operationId, fetchStatus, waitOptions(args), onPoll);
+    waitLog.info(`${toolName}: operation ${operationId} ${outcome.timedOut ? 'timed out as' : 'finished with'} ${outcome.operationStatus} after ${outcome.polls} poll(s)`);
+    return outcome;
+  }
 
-    const generateFromCurrentOpenApi = () => {
-      if (!this.openApi) {
-        this.generatedTools = [];
-        this.operationMap.clear();
-        return;
+  // Per-call proxy_user_id wins (empty string means none), then the session's choice, then the deployment default
+  private resolveProxyUserId(sessionKey: string, args: Record<string, any> | undefined): string | undefined {
+    if (args && typeof args.proxy_user_id === 'string') {
+      return args.proxy_user_id.trim() || undefined;
+    }
+    if (this.sessionProxies.has(sessionKey)) {
+      return this.sessionProxies.get(sessionKey) ?? undefined;
+    }
+    return this.apiClient.defaultProxyUserId;
+  }
+
+  private whoami(sessionKey: string, proxyUserId: string | undefined): CallToolResult {
+    const proxySource = !proxyUserId
+      ? 'none'
+      : this.sessionProxies.get(sessionKey) === proxyUserId
+        ? 'session'
+        : proxyUserId === this.apiClient.defaultProxyUserId
+          ? 'environment'
+          : 'call';
+    const expiresAt = this.apiClient.apiTokenExpiry(proxyUserId);
+    const identity = {
+      user: this.apiClient.username || null,
+      proxyUserId: proxyUserId ?? null,
+      proxySource,
+      session: sessionKey,
+      apiToken: expiresAt ? { cached: true, expiresAt: new Date(expiresAt).toISOString() } : { cached: false },
+    };
+    const summary = proxyUserId
+      ? `Authenticated as ${identity.user || '(no username configured)'}, acting as proxy user ${proxyUserId} (${proxySource}).`
+      : `Authenticated as ${identity.user || '(no username configured)'}, no proxy user active.`;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${summary}\n\n${JSON.stringify(identity, null, 2)}`,
+        },
+      ],
+      structuredContent: identity,
+    };
+  }
+
+  private async elicitMissingInputs(
+    server: Server,
+    toolName: string,
+    missing: MissingInput[],
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): Promise<Record<string, any> | null> {
+    if (!server.getClientCapabilities()?.elicitation) {
+      return null;
+    }
+    const requestedSchema = buildElicitationSchema(missing);
+    if (!requestedSchema) {
+      return null;
+    }
+    try {
+      const result = await extra.sendRequest(
+        {
+          method: 'elicitation/create',
+          params: {
+            message: `${toolName} needs more information: ${missing.map((mi) => mi.name).join(', ')}`,
+            requestedSchema,
+          },
+        },
+        ElicitResultSchema
+      );
+      if (result.action !== 'accept' || !result.content) {
+        elicitLog.info(`${toolName}: client responded with ${result.action}`);
+        return null;
       }
+      return result.content;
+    } catch (error) {
+      elicitLog.warn(`${toolName}: elicitation failed`, { error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  }
 
-      // Override server URLs with configured base URL
-      if (this.apiClient['config'].baseUrl) {
-        this.openApi.servers = [{ url: this.apiClient['config'].baseUrl }];
+  /**
+   * Confirm a write/destructive call through elicitation, or through a
+   * two-phase token when the client can't elicit. Returns null when the call
+   * may proceed, otherwise the result to return instead of sending it.
+   */
+  private async confirmCall(
+    server: Server,
+    sessionKey: string,
+    toolName: string,
+    op: any,
+    urlPath: string,
+    args: Record<string, any>,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): Promise<CallToolResult | null> {
+    const risk: OperationRisk = op.risk;
+    const { confirmation_token: token, api_token: _apiToken, ...shownArgs } = args;
+    const summary = `${toolName} (${risk}): ${op.method} ${urlPath}`;
+
+    let note = '';
+    if (typeof token === 'string' && token) {
+      const status = this.confirmationGate.consume(token, sessionKey, toolName, args);
+      if (status === 'ok') {
+        confirmLog.info(`${summary} confirmed by token`);
+        return null;
+      }
+      note = status === 'expired'
+        ? 'The confirmation token has expired. '
+        : status === 'mismatch'
+          ? 'The confirmation token was issued for different arguments. '
+          : 'The confirmation token is not valid. ';
+    } else if (server.getClientCapabilities()?.elicitation) {
+      try {
+        const result = await extra.sendRequest(
+          {
+            method: 'elicitation/create',
+            params: {
+              message: `Confirm ${summary}\n\nArguments:\n${JSON.stringify(shownArgs, null, 2)}`,
+              requestedSchema: {
+                type: 'object',
+                properties: {
+                  confirm: { type: 'boolean', title: 'Send this request', description: `Run ${toolName} now` },
+                },
+                required: ['confirm'],
+              },
+            },
+          },
+          ElicitResultSchema
+        );
+        if (result.action === 'accept' && result.content?.confirm === true) {
+          confirmLog.info(`${summary} confirmed by user`);
+          return null;
+        }
+        confirmLog.info(`${summary} not confirmed (${result.action})`);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `The user did not confirm ${toolName}. The request was not sent.`,
+            },
+          ],
+          isError: true,
+        };
+      } catch (error) {
+        // Fall back to the two-phase token
+        confirmLog.warn(`${toolName}: elicitation failed`, { error: error instanceof Error ? error.message : String(error) });
       }
+    }
 
-      const tools: Tool[] = [];
-      const opMap: Map<string, any> = new Map();
-      const paths = this.openApi.paths || {};
-      const methods = ['get', 'post', 'put', 'delete', 'patch'];
+    const issued = this.confirmationGate.issue(sessionKey, toolName, args);
+    const confirmationRequired = {
+      tool: toolName,
+      risk,
+      request: { method: op.method, path: urlPath },
+      confirmation_token: issued.token,
+      expiresAt: new Date(issued.expiresAt).toISOString(),
+    };
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${note}Confirmation required: ${summary}. The request was not sent.\n\nAsk the user to confirm, then call ${toolName} again with the same arguments plus "confirmation_token": "${issued.token}" (valid for 5 minutes, single use).\n\n${JSON.stringify({ confirmationRequired }, null, 2)}`,
+        },
+      ],
+      structuredContent: { confirmationRequired },
+    };
+  }
 
-      // Debug: Check if /account/ exists in paths object
-      if (paths['/account/'] || paths['/account']) {
-        console.error('[DEBUG] Path /account/ exists:', !!paths['/account/'], 'Path /account exists:', !!paths['/account']);
+  // Saved to SCANPOWER_LABEL_OUTPUT_DIR when configured, and returned as resource, image or text content
+  private documentsResult(toolName: string, documents: DocumentFile[]): CallToolResult {
+    const content: CallToolResult['content'] = [];
+    const summaries: Record<string, any>[] = [];
+    documents.forEach((document, index) => {
+      let savedPath: string | undefined;
+      try {
+        savedPath = saveDocument(document, toolName, index);
+      } catch (error) {
+        content.push({ type: 'text', text: `Could not save ${toolName} document: ${error instanceof Error ? error.message : error}` });
       }
+      content.push(...documentContent(document, toolName, index, savedPath));
+      summaries.push(documentSummary(document, savedPath));
+    });
+    return { content, structuredContent: { documents: summaries } };
+  }
 
+  private missingInputsResult(toolName: string, missing: MissingInput[]): CallToolResult {
+    const missingInputs = missing.map((mi) => ({ name: mi.name, in: mi.in, description: mi.description, schema: mi.schema }));
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${formatMissingInputs(toolName, missing)}\n\n${JSON.stringify({ missingInputs }, null, 2)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Build the tools, operation map and resource catalog for the loaded specs without touching the live ones
+  private generateTools(specs: LoadedSpecSource[]): GeneratedTools {
+    const tools: Tool[] = [];
+    const opMap: Map<string, any> = new Map();
+    const resourceEntries: OperationEntry[] = [];
+    const methods = ['get', 'post', 'put', 'delete', 'patch'];
+    // Sources are merged in order; an operation whose tool name is already taken gets a unique one
+    const names = new ToolNameRegistry(RESERVED_TOOL_NAMES);
+    // Tool name by operationId, for prompts and configured aliases (the first source wins)
+    const toolNames = new Map<string, string>();
+
+    let filteredOut = 0;
+    for (const { source, doc } of specs) {
+      // Requests go to the source's base URL, whatever servers the spec lists
+      doc.servers = [{ url: source.baseUrl }];
+      const paths = doc.paths || {};
+      const scanPowerAuth = source.auth.type === 'scanpower';
+      const sourceToolNames = new Map<string, string>();
       for (const pathKey of Object.keys(paths)) {
-        //console.error('pathKey', pathKey);
         const pathItem = paths[pathKey] || {};
         for (const m of methods) {
           const op = pathItem[m];
           if (!op) continue;
-          const operationId = op.operationId || `${m}_${pathKey.replace(/[^a-zA-Z0-9]+/g, '_')}`;
+          const named: NamedOperation = { operationId: op.operationId, method: m.toUpperCase(), path: pathKey, tags: op.tags || [] };
+          const operationId = legacyToolName(named);
+          const preferredName = fitToolName(`${source.prefix}${toolNameFor(this.naming, named)}`);
           const description = op.summary || op.description || `${m.toUpperCase()} ${pathKey}`;
 
-          // Collect parameters and resolve references
+          // Skip operations excluded by the configured toolsets/rules; they can't be listed or called
+          if (!this.toolFilter.allows({ operationId, toolName: preferredName, source: source.name, method: m.toUpperCase(), path: pathKey, tags: op.tags || [] })) {
+            filteredOut++;
+            continue;
+          }
+
+          const toolName = names.claim(preferredName, `${source.name} ${m.toUpperCase()} ${pathKey}`);
+          sourceToolNames.set(operationId, toolName);
+          if (!toolNames.has(operationId)) toolNames.set(operationId, toolName);
+          // The name earlier versions (and the default strategy) used keeps working
+          names.alias(fitToolName(`${source.prefix}${operationId}`), toolName);
+
+          // Collect parameters and resolve references (operation-level params override path-level ones)
           const rawParams = [...(pathItem.parameters || []), ...(op.parameters || [])];
-          const params = rawParams.map((p: any) => {
-            if (p.$ref) {
-              // Resolve reference
-              const refPath = p.$ref.replace('#/', '').split('/');
-              let resolved = this.openApi;
-              for (const part of refPath) {
-                resolved = resolved?.[part];
-              }
-              return resolved || p;
-            }
-            return p;
-          });
+          const paramsByKey = new Map<string, any>();
+          for (const raw of rawParams) {
+            const p = derefObject(doc, raw);
+            if (!p?.name || !p?.in) continue;
+            paramsByKey.set(`${p.in}:${p.name}`, {
+              ...p,
+              schema: resolveSchema(doc, p.schema || { type: 'string' }),
+            });
+          }
+          const params = Array.from(paramsByKey.values());
           const pathParams = params.filter((p: any) => p.in === 'path').map((p: any) => p.name);
           const queryParams = params.filter((p: any) => p.in === 'query').map((p: any) => p.name);
           const headerParams = params.filter((p: any) => p.in === 'header').map((p: any) => p.name);
@@ -572,59 +1424,146 @@ class ScanPowerMCPServer {
           }
 
           const inputSchemaProps: any = {};
-          for (const p of pathParams) inputSchemaProps[p.replace(/[-.]/g, '_')] = { type: 'string' };
-          for (const q of queryParams) inputSchemaProps[q.replace(/[-.]/g, '_')] = { type: ['string', 'number', 'boolean', 'array', 'object'] };
-          for (const h of headerParams) inputSchemaProps[h.replace(/[-.]/g, '_')] = { type: 'string' };
+          const required: string[] = [];
+          for (const p of params) {
+            const argName = p.name.replace(/[-.]/g, '_');
+            const propSchema: any = { ...p.schema };
+            if (p.description) propSchema.description = p.description;
+            // x-access-token is filled in from the Amazon access token when omitted
+            if (scanPowerAuth && p.in === 'header' && p.name === 'x-access-token') {
+              propSchema.description = [propSchema.description, 'Filled in automatically when omitted.'].filter(Boolean).join(' ');
+            } else if (p.in === 'path' || p.required) {
+              required.push(argName);
+            }
+            inputSchemaProps[argName] = propSchema;
+          }
 
-          // Request body support (JSON only)
+          // Request body: every declared content type, JSON preferred when there is a choice
           let requiresBody = false;
           let bodySchema: any = undefined;
-          if (op.requestBody && op.requestBody.content) {
-            const contentTypes = Object.keys(op.requestBody.content);
-            if (contentTypes.includes('application/json')) {
+          let bodyIsRequired = false;
+          let defaultContentType: string | undefined;
+          const bodyContent: Record<string, any> = {};
+          const requestBody = derefObject(doc, op.requestBody);
+          if (requestBody && requestBody.content) {
+            for (const [contentType, media] of Object.entries<any>(requestBody.content)) {
+              bodyContent[contentType] = resolveSchema(doc, media?.schema || {});
+            }
+            const contentTypes = Object.keys(bodyContent);
+            defaultContentType = contentTypes.find(isJsonContentType) ?? contentTypes[0];
+            if (defaultContentType) {
               requiresBody = true;
-              bodySchema = op.requestBody.content['application/json']?.schema;
+              bodyIsRequired = requestBody.required === true;
+              // File fields accept a local path or base64 instead of raw bytes
+              bodySchema = withFileInputs(bodyContent[defaultContentType]);
             }
           }
           if (requiresBody) {
-            inputSchemaProps['body'] = { type: ['object', 'array', 'string', 'number', 'boolean', 'null'] };
+            inputSchemaProps['body'] = {
+              ...bodySchema,
+              description: requestBody.description || bodySchema?.description || 'Request body',
+            };
+            if (bodyIsRequired) required.push('body');
+            if (Object.keys(bodyContent).length > 1) {
+              inputSchemaProps['content_type'] = {
+                type: 'string',
+                enum: Object.keys(bodyContent),
+                description: `Request body content type (default ${defaultContentType})`,
+              };
+            }
           }
 
-          // Add api_token for auth convenience
-          inputSchemaProps['api_token'] = { type: 'string', description: 'Optional token for bearer/apiKey auth' };
+          // Add api_token for auth convenience; other sources authenticate from their own configuration
+          if (scanPowerAuth) {
+            inputSchemaProps['api_token'] = { type: 'string', description: 'Optional token for bearer/apiKey auth' };
+            inputSchemaProps['proxy_user_id'] = operationId === 'getProxyUsers'
+              ? { type: 'string', description: 'Select this proxy user for the rest of the session (empty string clears it)' }
+              : { type: 'string', description: 'Optional proxy user to act as for this call only (empty string for none)' };
+          }
 
-          const required: string[] = [];
-          // Path params are typically required
-          for (const p of pathParams) required.push(p.replace(/[-.]/g, '_'));
+          // Labels and shipping documents: binary responses and optional download of linked files
+          const contentTypes = responseContentTypes(doc, op);
+          const documentOperation = isDocumentOperation(operationId, contentTypes);
+          if (documentOperation) {
+            inputSchemaProps['download'] = { type: 'boolean', description: 'Download label/document files linked from the response (e.g. presigned URLs) and return them as content' };
+          }
+
+          const pagination = detectPagination(queryParams, defaultContentType && isJsonContentType(defaultContentType) ? bodySchema : undefined);
+          if (pagination) {
+            inputSchemaProps['all_pages'] = { type: 'boolean', description: `Fetch every page (following ${pagination.param}) and return the items as one result` };
+            inputSchemaProps['max_pages'] = { type: 'integer', minimum: 1, description: 'With all_pages: stop after this many pages (default 20)' };
+            inputSchemaProps['max_items'] = { type: 'integer', minimum: 1, description: 'With all_pages: stop once this many items are collected (default 1000)' };
+          }
+
+          // Response shaping arguments yield their names to real parameters of the same name
+          const shapeArgs = {
+            fields: inputSchemaProps['fields'] ? 'result_fields' : 'fields',
+            limit: inputSchemaProps['limit'] ? 'result_limit' : 'limit',
+          };
+          inputSchemaProps[shapeArgs.fields] = {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Return only these fields: dotted paths (inboundPlans.inboundPlanId) or JSONPath ($.inboundPlans[*].name); arrays are traversed automatically',
+          };
+          inputSchemaProps[shapeArgs.limit] = { type: 'integer', minimum: 0, description: 'Return at most this many items of the response list' };
+
+          inputSchemaProps['dry_run'] = { type: 'boolean', description: 'Return the fully resolved HTTP request (secrets redacted) and a curl equivalent instead of sending it' };
+
+          const risk = this.confirmationGate.classify(operationId, m);
+          if (this.confirmationGate.requires(risk)) {
+            inputSchemaProps['confirmation_token'] = {
+              type: 'string',
+              description: `This ${risk} operation must be confirmed. Omit on the first call; pass the token it returns to send the same request.`,
+            };
+          }
+
+          // Typed result from the 2xx response schema; getProxyUsers returns its own normalized shape
+          const output = operationId === 'getProxyUsers' ? null : buildOutputSchema(doc, op);
+          let outputSchema = operationId === 'getProxyUsers' ? PROXY_USERS_OUTPUT_SCHEMA : output?.schema;
+
+          // Asynchronous SP-API operations (the response has an operationId) can wait for the outcome
+          const asyncOperation = isAsyncOperation(operationId, output?.schema);
+          if (asyncOperation) {
+            inputSchemaProps['wait'] = { type: 'boolean', description: `Poll ${STATUS_OPERATION} until the operation succeeds or fails and include the final status` };
+            inputSchemaProps['wait_timeout'] = { type: 'number', exclusiveMinimum: 0, description: `With wait: give up after this many seconds (default ${DEFAULT_WAIT_TIMEOUT_SECONDS})` };
+            outputSchema = { ...outputSchema, properties: { ...outputSchema.properties, operation: OPERATION_OUTCOME_SCHEMA } };
+          }
+          if (documentOperation && outputSchema) {
+            outputSchema = { ...outputSchema, properties: { ...outputSchema.properties, documents: DOWNLOADED_DOCUMENTS_SCHEMA } };
+          }
 
           tools.push({
-            name: operationId,
+            name: toolName,
             description,
             inputSchema: {
               type: 'object',
               properties: inputSchemaProps,
               required: required.length ? required : undefined,
             },
+            ...(outputSchema ? { outputSchema } : {}),
+            annotations: {
+              readOnlyHint: risk === 'read',
+              destructiveHint: risk === 'destructive',
+            },
           });
 
           // Store whether the original path has a trailing slash
           // Also check the paths object directly to see if /account/ exists separately
           let pathHasTrailingSlash = pathKey && pathKey.endsWith('/');
-          
+        
           // Special case: if path is /account but the API requires /account/
           // Check if this operation is known to need trailing slash (getProxyUsers)
           if (!pathHasTrailingSlash && pathKey === '/account' && operationId === 'getProxyUsers') {
             // Check if /account/ also exists in paths (it shouldn't if we're in /account branch)
             // But if the API requires /account/, we should add it
             pathHasTrailingSlash = true; // Force trailing slash for getProxyUsers
-            console.error('[TOOLS] Forcing trailing slash for getProxyUsers - path will be /account/');
-          }
-          
-          // Debug: verify trailing slash handling for specific operations
-          if (operationId === 'getProxyUsers') {
-            console.error('[TOOLS] getProxyUsers path:', pathKey, 'pathHasTrailingSlash:', pathHasTrailingSlash);
+            toolsLog.debug('Forcing trailing slash for getProxyUsers - path will be /account/');
           }
-          opMap.set(operationId, {
+
+          opMap.set(toolName, {
+            source: source.name,
+            specSource: source,
+            operationId,
             method: m.toUpperCase(),
             path: pathKey, // Preserve original path including trailing slash
             pathHasTrailingSlash, // Store flag to restore trailing slash later
@@ -632,89 +1571,268 @@ class ScanPowerMCPServer {
             queryParams,
             headerParams,
             paramDefs: paramDefsByIn,
-            security: op.security || this.openApi.security || [],
-            bodyRequired: requiresBody,
+            security: op.security || doc.security || [],
+            securitySchemes: doc.components?.securitySchemes || {},
+            hasBody: requiresBody,
+            bodyRequired: bodyIsRequired,
             bodySchema,
+            bodyContent,
+            defaultContentType,
+            risk,
+            pagination,
+            shapeArgs,
+            outputWrapped: output?.wrapped === true,
+            binaryResponse: expectsBinary(contentTypes),
+            documentOperation,
+            asyncOperation,
           });
+          resourceEntries.push({ toolName, operationId, source: source.name, method: m.toUpperCase(), path: pathKey, tags: op.tags || [], risk });
         }
       }
 
-      this.generatedTools = tools;
-      //console.error('generatedTools', this.generatedTools);
-      this.operationMap = opMap;
-      this.isReady = true;
-    };
+      // Waiting polls the status operation of the same source; without it (filtered out or not in the spec) drop the wait arguments
+      const statusTool = sourceToolNames.get(STATUS_OPERATION);
+      for (const toolName of sourceToolNames.values()) {
+        const entry = opMap.get(toolName);
+        if (!entry.asyncOperation) continue;
+        const properties = tools.find((tool) => tool.name === toolName)!.inputSchema.properties!;
+        if (statusTool) {
+          entry.statusTool = statusTool;
+          (properties.wait as any).description = `Poll ${statusTool} until the operation succeeds or fails and include the final status`;
+        } else {
+          delete properties.wait;
+          delete properties.wait_timeout;
+          entry.asyncOperation = false;
+        }
+      }
+    }
 
-    // Check if specSource is a URL (http/https) or blob URL
-    if (specSource && (/^https?:\/\//i.test(specSource) || /^blob:https?:\/\//i.test(specSource))) {
-      // Load asynchronously from URL
-      console.error(`Loading OpenAPI spec from URL: ${specSource}`);
-      this.openApi = null;
-      this.generatedTools = [];
-      this.operationMap.clear();
-      
-      // Skip blob URLs as they can't be fetched via HTTP
-      if (/^blob:https?:\/\//i.test(specSource)) {
-        console.error('Blob URLs cannot be fetched via HTTP. Please provide a direct HTTP/HTTPS URL to the OpenAPI spec.');
-        this.isReady = true; // Set ready even if no spec
-        return;
+    // Configured aliases may name a tool or an operationId
+    for (const [alias, target] of this.configuredAliases) {
+      const toolName = opMap.has(target) ? target : toolNames.get(target);
+      if (!toolName) {
+        toolsLog.warn(`Alias ${alias} points to ${target}, which is not an available tool`);
+      } else if (!names.alias(alias, toolName)) {
+        toolsLog.warn(`Alias ${alias} for ${toolName} is ignored; the name is already in use`);
       }
-      
+    }
+    names.prune();
+
+    if (filteredOut > 0) {
+      toolsLog.info(`Tool filter (${this.toolFilter.description}) excluded ${filteredOut} operations`);
+    }
+    for (const collision of names.collisions) {
+      toolsLog.warn(`Tool name collision: ${collision}`);
+    }
+    const resourceCatalog = new ResourceCatalog(new Map(specs.map(({ source, doc }) => [source.name, doc])), resourceEntries);
+    return { tools, operationMap: opMap, aliases: names.aliases, toolNames, resourceCatalog };
+  }
+
+  // Swap in a generated set in one step; calls already running keep the operation map they started with
+  private applyTools(specs: LoadedSpecSource[], generated: GeneratedTools): void {
+    this.specs = specs;
+    this.generatedTools = generated.tools;
+    this.operationMap = generated.operationMap;
+    this.toolAliases = generated.aliases;
+    this.toolNames = generated.toolNames;
+    this.resourceCatalog = generated.resourceCatalog;
+    this.isReady = true;
+  }
+
+  private async loadOpenApiAndGenerateTools(): Promise<void> {
+    const specs: LoadedSpecSource[] = [];
+    for (const source of this.sources) {
+      const doc = await this.loadInitialSpec(source);
+      if (doc) specs.push({ source, doc });
+    }
+
+    // Starting without tools would look healthy to clients while every call fails
+    if (specs.length === 0) {
+      throw new Error('No OpenAPI spec could be loaded. Set SCANPOWER_OPENAPI_SPEC to a reachable URL or local file, or create a snapshot with "npm run spec:vendor".');
+    }
+
+    this.applyTools(specs, this.generateTools(specs));
+    if (this.generatedTools.length === 0) {
+      toolsLog.warn('The OpenAPI spec produced no tools; check the tool filter settings.');
+    } else {
+      toolsLog.info(`Generated ${this.generatedTools.length} tools from ${specs.length === 1 ? 'OpenAPI spec' : `${specs.length} OpenAPI specs`}.`);
+    }
+  }
+
+  private async loadInitialSpec(source: SpecSource): Promise<any | null> {
+    // Name the source in the logs once there is more than one
+    const label = this.sources.length > 1 ? ` for ${source.name}` : '';
+
+    // Try the configured source first (URL, file:// URL or local JSON/YAML path)
+    if (source.spec) {
+      specLog.info(`Loading OpenAPI spec${label} from: ${source.spec}`);
       try {
-        const resp = await axios.get(specSource, { 
-          timeout: 30000, 
-          httpsAgent: new https.Agent({ rejectUnauthorized: false }),
-          headers: {
-            'Accept': 'application/json',
-            'User-Agent': 'ScanPower-MCP-Server/1.0.0'
-          }
-        });
-        
+        const loaded = await loadSpecIfChanged(source.spec);
+        this.specVersions.set(source.name, loaded.version);
+        specLog.info(`OpenAPI spec${label} loaded from configured source.`);
+        return loaded.doc;
+      } catch (e) {
+        specLog.error(`Failed to load OpenAPI spec${label} from ${source.spec}: ${e instanceof Error ? e.message : e}`);
+      }
+    } else if (this.sources.length === 1) {
+      specLog.warn('SCANPOWER_OPENAPI_SPEC is not set.');
+    }
+
+    // Fall back to the snapshot so the tool list is never silently empty
+    if (!source.snapshot) return null;
+    if (!fs.existsSync(resolveSpecPath(source.snapshot))) {
+      specLog.error(`No OpenAPI snapshot${label} at ${source.snapshot}. Create it with "npm run spec:vendor" on a machine that can reach the spec.`);
+      return null;
+    }
+    try {
+      const doc = readSpecFile(source.snapshot);
+      specLog.info(`Using vendored OpenAPI snapshot${label}: ${source.snapshot}`);
+      return doc;
+    } catch (e) {
+      specLog.error(`Failed to load vendored OpenAPI snapshot${label} from ${source.snapshot}: ${e instanceof Error ? e.message : e}`);
+      return null;
+    }
+  }
+
+  // Only sources with a spec location are reloaded; snapshots are pinned
+  private reloadableSources(): SpecSource[] {
+    return this.sources.filter((source) => source.spec);
+  }
+
+  private canReload(): boolean {
+    return this.reloadableSources().length > 0;
+  }
+
+  // The reload tool also has to pass the tool filter, like a POST operation named reloadSpec
+  private offersReloadTool(): boolean {
+    return this.canReload() && reloadToolEnabled()
+      && this.toolFilter.allows({ operationId: RELOAD_TOOL.name, toolName: RELOAD_TOOL.name, source: '', method: 'POST', path: '', tags: [] });
+  }
+
+  // One reload at a time; a request while one is running gets that reload's result
+  private reloadSpec(trigger: ReloadTrigger): Promise<ReloadResult> {
+    if (!this.reloading) {
+      this.reloading = this.runReload(trigger).finally(() => {
+        this.reloading = null;
+      });
+    }
+    return this.reloading;
+  }
+
+  private async runReload(trigger: ReloadTrigger): Promise<ReloadResult> {
+    const sources = this.reloadableSources();
+    const locations = sources.map((source) => source.spec!);
+    try {
+      // Conditional request (ETag/Last-Modified) or mtime check per source; unchanged specs are not re-parsed
+      const changed = new Map<string, LoadedSpec>();
+      for (const source of sources) {
+        let loaded: LoadedSpec;
         try {
-          let data = resp.data;
-          
-          // If response is a string, try to parse it as JSON
-          if (typeof data === 'string') {
-            // Try to fix common JSON issues like trailing commas
-            data = data.replace(/,(\s*[}\]])/g, '$1');
-            this.openApi = JSON.parse(data);
-          } else {
-            this.openApi = data;
-          }
-          
-          generateFromCurrentOpenApi();
-          console.error('OpenAPI spec loaded from URL. Tools generated.');
+          loaded = await loadSpecIfChanged(source.spec!, this.specVersions.get(source.name));
         } catch (e) {
-          console.error('Failed to parse OpenAPI spec from URL. Dynamic tools disabled.', e);
-          this.openApi = null;
-          this.generatedTools = [];
-          this.operationMap.clear();
-          this.isReady = true; // Set ready even if no spec
+          throw new Error(`${source.name}: ${e instanceof Error ? e.message : e}`);
+        }
+        if (loaded.doc) {
+          changed.set(source.name, loaded);
+        } else {
+          this.specVersions.set(source.name, loaded.version);
         }
-      } catch (e) {
-        console.error('Failed to fetch OpenAPI spec from URL. Dynamic tools disabled.', e);
-        this.openApi = null;
-        this.generatedTools = [];
-        this.operationMap.clear();
-        this.isReady = true; // Set ready even if no spec
       }
-      return;
+      if (changed.size === 0) {
+        specLog.debug(`Specs unchanged (${trigger})`);
+        return { trigger, status: 'unchanged', sources: locations, tools: this.generatedTools.length, ...NO_CHANGES };
+      }
+
+      // Changed sources get their new document, the others keep the one already loaded
+      const specs = this.sources.flatMap((source): LoadedSpecSource[] => {
+        const doc = changed.get(source.name)?.doc ?? this.specs.find((spec) => spec.source === source)?.doc;
+        return doc ? [{ source, doc }] : [];
+      });
+      const generated = this.generateTools(specs);
+      if (generated.tools.length === 0) {
+        throw new Error('The new specs produced no tools');
+      }
+      const changes = diffTools(this.generatedTools, generated.tools);
+      this.applyTools(specs, generated);
+      for (const [name, loaded] of changed) {
+        this.specVersions.set(name, loaded.version);
+      }
+      specLog.info(`Reloaded ${Array.from(changed.keys()).join(', ')} (${trigger}): ${generated.tools.length} tools`, changes);
+      await this.notifyListChanged(hasToolChanges(changes));
+      return { trigger, status: 'updated', sources: locations, tools: generated.tools.length, ...changes };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      specLog.warn(`Spec reload failed; keeping the current tools: ${error}`);
+      return { trigger, status: 'failed', sources: locations, tools: this.generatedTools.length, ...NO_CHANGES, error };
+    }
+  }
+
+  // Tell every connected session; resources follow the spec, prompts follow tool availability
+  private async notifyListChanged(toolsChanged: boolean): Promise<void> {
+    const notifications: Promise<void>[] = [];
+    for (const server of this.servers) {
+      notifications.push(server.sendResourceListChanged());
+      if (toolsChanged) {
+        notifications.push(server.sendToolListChanged(), server.sendPromptListChanged());
+      }
+    }
+    const results = await Promise.allSettled(notifications);
+    const failed = results.filter((r) => r.status === 'rejected').length;
+    if (failed > 0) {
+      specLog.debug(`${failed} list-changed notification(s) could not be sent`);
     }
   }
 
   async run(): Promise<void> {
     // Load OpenAPI spec and generate tools first
     await this.loadOpenApiAndGenerateTools();
-    
+
+    const reloadInterval = this.canReload() ? reloadIntervalMs() : 0;
+    const stopReloading = reloadInterval > 0 ? scheduleReload(reloadInterval, () => this.reloadSpec('schedule')) : () => {};
+    if (reloadInterval > 0) {
+      specLog.info(`Checking ${this.reloadableSources().map((source) => source.spec).join(', ')} for changes every ${reloadInterval / 1000}s`);
+    }
+
+    const transportMode = (process.env.SCANPOWER_MCP_TRANSPORT || 'stdio').toLowerCase();
+    if (transportMode === 'http') {
+      const host = process.env.SCANPOWER_MCP_HOST || '127.0.0.1';
+      const port = Number(process.env.SCANPOWER_MCP_PORT) || 3000;
+      const shutdown = await startHttpTransport({
+        host,
+        port,
+        path: process.env.SCANPOWER_MCP_PATH || '/mcp',
+        access: httpAccessFromEnv(host, port),
+        createServer: () => this.createServer(),
+        health: () => ({ ready: this.isReady, tools: this.generatedTools.length }),
+        onSessionClosed: (sessionId) => this.sessionProxies.delete(sessionId),
+      });
+
+      // Graceful shutdown: close sessions and stop accepting connections before exiting
+      const stop = (signal: string) => {
+        log.info(`Received ${signal}, shutting down...`);
+        stopReloading();
+        shutdown()
+          .catch((error) => log.error('Shutdown error', { error: error instanceof Error ? error.message : String(error) }))
+          .finally(() => process.exit(0));
+      };
+      process.once('SIGINT', () => stop('SIGINT'));
+      process.once('SIGTERM', () => stop('SIGTERM'));
+      return;
+    }
+    if (transportMode !== 'stdio') {
+      throw new Error(`Unknown SCANPOWER_MCP_TRANSPORT "${transportMode}" (expected stdio or http)`);
+    }
+
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('ScanPower MCP server running on stdio');
+    await this.createServer().connect(transport);
+    log.info('ScanPower MCP server running on stdio');
   }
 }
 
-// Start the server
-const server = new ScanPowerMCPServer();
-server.run().catch((error) => {
-  console.error('Server error:', error);
-  process.exit(1);
-});
+// Start the server (configuration errors such as unreadable TLS files surface here too)
+Promise.resolve()
+  .then(() => new ScanPowerMCPServer().run())
+  .catch((error) => {
+    log.error(`Server error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });
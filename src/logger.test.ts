@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { addRedactedKeys, isRedactedKey, redact, REDACTED } from './logger.js';
+
+describe('redact', () => {
+  it('redacts credentials and PII at any depth, whatever the key spelling', () => {
+    const redacted = redact({
+      headers: { Authorization: 'Bearer abc', 'X-Access-Token': 'Atza|1', 'X-Proxy': '42', Accept: 'application/json' },
+      body: { shipFrom: { email: 'ops@example.com', phoneNumber: '555', city: 'Austin' }, items: [{ apiToken: 'x', sku: 'A1' }] },
+    });
+    assert.deepEqual(redacted, {
+      headers: { Authorization: REDACTED, 'X-Access-Token': REDACTED, 'X-Proxy': REDACTED, Accept: 'application/json' },
+      body: { shipFrom: { email: REDACTED, phoneNumber: REDACTED, city: 'Austin' }, items: [{ apiToken: REDACTED, sku: 'A1' }] },
+    });
+  });
+
+  it('redacts tokens embedded in text and error messages', () => {
+    assert.equal(redact('retry with Bearer eyJ.a.b failed'), `retry with Bearer ${REDACTED} failed`);
+    assert.equal(redact(new Error('Basic dXNlcjpwYXNz rejected')), `Basic ${REDACTED} rejected`);
+  });
+
+  it('summarizes binary and form bodies', () => {
+    assert.equal(redact(Buffer.from('abc')), '<3 bytes>');
+    assert.equal(redact(new FormData()), '<multipart form data>');
+    assert.deepEqual(redact(new URLSearchParams('password=x&sku=A1')), { password: REDACTED, sku: 'A1' });
+  });
+
+  it('keeps empty values and accepts extra keys at runtime', () => {
+    assert.deepEqual(redact({ token: '', password: null }), { token: '', password: null });
+    assert.equal(isRedactedKey('X-Warehouse-Key'), false);
+    addRedactedKeys(['X-Warehouse-Key']);
+    assert.equal(isRedactedKey('x_warehouse_key'), true);
+    assert.equal(isRedactedKey('dbPassword'), true);
+  });
+});
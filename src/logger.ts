@@ -0,0 +1,103 @@
+// Logging: leveled text or JSON lines on stderr (stdout carries the stdio MCP protocol), with secrets and PII redacted
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface Logger {
+  debug(message: string, fields?: Record<string, any>): void;
+  info(message: string, fields?: Record<string, any>): void;
+  warn(message: string, fields?: Record<string, any>): void;
+  error(message: string, fields?: Record<string, any>): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+export const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 8;
+
+// Compared case-insensitively with "-", "_" and spaces removed, so x-access-token matches xAccessToken
+const DEFAULT_REDACT_KEYS = [
+  'authorization', 'proxy-authorization', 'cookie', 'set-cookie',
+  'token', 'api_token', 'access_token', 'refresh_token', 'id_token', 'session_token', 'confirmation_token',
+  'x-access-token', 'x-api-key', 'api_key', 'client_secret', 'secret_access_key', 'aws_secret_access_key',
+  'x-proxy', 'proxy_user_id', 'username', 'password',
+  'email', 'phone', 'phone_number', 'address_line1', 'address_line2', 'address_line3',
+];
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_\s]/g, '');
+}
+
+function parseLevel(value: string | undefined): LogLevel {
+  const level = (value || 'info').toLowerCase();
+  return level in LEVELS ? (level as LogLevel) : 'info';
+}
+
+// Read once; SCANPOWER_LOG_REDACT adds keys to the default list
+const settings = {
+  level: parseLevel(process.env.SCANPOWER_LOG_LEVEL),
+  json: (process.env.SCANPOWER_LOG_FORMAT || '').toLowerCase() === 'json',
+  redactKeys: new Set(
+    [...DEFAULT_REDACT_KEYS, ...(process.env.SCANPOWER_LOG_REDACT || '').split(',')]
+      .map((key) => normalizeKey(key.trim()))
+      .filter(Boolean)
+  ),
+};
+
+// Keys only known at runtime, e.g. the credential header of a configured spec source
+export function addRedactedKeys(keys: string[]): void {
+  for (const key of keys) {
+    if (key.trim()) settings.redactKeys.add(normalizeKey(key.trim()));
+  }
+}
+
+export function isRedactedKey(key: string): boolean {
+  const normalized = normalizeKey(key);
+  return settings.redactKeys.has(normalized) || normalized.includes('password') || normalized.includes('secret');
+}
+
+// Credentials embedded in free text, e.g. an Authorization value echoed in an error message
+function redactString(value: string): string {
+  return value.replace(/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`);
+}
+
+/**
+ * Copy of a value with every redacted key's value replaced, at any depth.
+ * Buffers and form bodies are summarized rather than dumped.
+ */
+export function redact(value: any, depth: number = 0): any {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[...]';
+  if (Buffer.isBuffer(value) || value instanceof ArrayBuffer) return `<${value.byteLength} bytes>`;
+  if (value instanceof URLSearchParams) return redact(Object.fromEntries(value), depth);
+  if (value instanceof FormData) return '<multipart form data>';
+  if (value instanceof Error) return redactString(value.message);
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+
+  const out: Record<string, any> = {};
+  for (const [key, inner] of Object.entries(value)) {
+    if (typeof inner === 'function') continue;
+    out[key] = isRedactedKey(key) && inner !== undefined && inner !== null && inner !== '' ? REDACTED : redact(inner, depth + 1);
+  }
+  return out;
+}
+
+function write(level: LogLevel, tag: string, message: string, fields?: Record<string, any>): void {
+  if (LEVELS[level] < LEVELS[settings.level]) return;
+  const safeFields = fields ? redact(fields) : undefined;
+  if (settings.json) {
+    process.stderr.write(`${JSON.stringify({ time: new Date().toISOString(), level, tag, msg: redactString(message), ...safeFields })}\n`);
+    return;
+  }
+  const suffix = safeFields && Object.keys(safeFields).length > 0 ? ` ${JSON.stringify(safeFields)}` : '';
+  const prefix = level === 'warn' || level === 'error' ? `${level.toUpperCase()} ` : '';
+  process.stderr.write(`${prefix}[${tag}] ${redactString(message)}${suffix}\n`);
+}
+
+export function createLogger(tag: string): Logger {
+  return {
+    debug: (message, fields) => write('debug', tag, message, fields),
+    info: (message, fields) => write('info', tag, message, fields),
+    warn: (message, fields) => write('warn', tag, message, fields),
+    error: (message, fields) => write('error', tag, message, fields),
+  };
+}
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { fitToolName, legacyToolName, MAX_TOOL_NAME_LENGTH, splitWords, ToolNameRegistry, toolNameFor } from './naming.js';
+
+describe('tool naming', () => {
+  const op = { operationId: 'getFBAInventory', method: 'GET', path: '/api/az/inventory', tags: ['FBA Inventory'] };
+
+  it('applies the naming strategies', () => {
+    assert.deepEqual(splitWords('getFBAInventory'), ['get', 'fba', 'inventory']);
+    assert.equal(toolNameFor('operationId', op), 'getFBAInventory');
+    assert.equal(toolNameFor('camel', op), 'getFbaInventory');
+    assert.equal(toolNameFor('snake', op), 'get_fba_inventory');
+    assert.equal(toolNameFor('tag', op), 'fba_inventory_get_fba_inventory');
+    assert.equal(toolNameFor('tag', { ...op, operationId: 'fbaInventorySummary' }), 'fba_inventory_summary');
+  });
+
+  it('names operations without an operationId after the method and path', () => {
+    const anonymous = { method: 'GET', path: '/api/az/{id}/labels', tags: [] };
+    assert.equal(legacyToolName(anonymous), 'get__api_az_id_labels');
+    assert.equal(toolNameFor('camel', anonymous), 'getApiAzLabels');
+  });
+
+  it('keeps names within the length limit and unique', () => {
+    const long = fitToolName(`prefix.${'a'.repeat(80)}`);
+    assert.equal(long.length, MAX_TOOL_NAME_LENGTH);
+    assert.match(long, /^prefix_a+_[0-9a-f]{8}$/);
+    assert.notEqual(fitToolName('b'.repeat(70)), fitToolName(`${'b'.repeat(69)}c`));
+  });
+
+  it('renames collisions deterministically and keeps tool names over aliases', () => {
+    const first = new ToolNameRegistry(['whoami']);
+    const second = new ToolNameRegistry(['whoami']);
+    assert.equal(first.claim('getLabels', 'a GET /labels'), 'getLabels');
+    const renamed = first.claim('getLabels', 'b GET /labels');
+    assert.match(renamed, /^getLabels_[0-9a-f]{6}$/);
+    // Same suffix regardless of which other operations were claimed before
+    assert.equal(second.claim('getLabels', 'b GET /labels'), 'getLabels');
+    assert.equal(second.claim('getLabels', 'b GET /labels'), renamed);
+    assert.match(first.claim('whoami', 'a GET /whoami'), /^whoami_/);
+
+    assert.equal(first.alias('labels', 'getLabels'), true);
+    assert.equal(first.alias('labels', renamed), false);
+    assert.equal(first.alias('getLabels', renamed), false);
+    first.alias('later', 'getLabels');
+    first.claim('later', 'a GET /later');
+    first.prune();
+    assert.deepEqual([...first.aliases.keys()], ['labels']);
+  });
+});
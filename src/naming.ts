@@ -0,0 +1,135 @@
+// Tool naming: normalize operationIds to one naming strategy, keep old names as aliases and keep names unique and short
+import { createHash } from 'crypto';
+
+// operationId: as published; camel: searchCatalogItems; snake: search_catalog_items; tag: catalog_search_catalog_items
+export type NamingStrategy = 'operationId' | 'camel' | 'snake' | 'tag';
+
+const STRATEGIES: NamingStrategy[] = ['operationId', 'camel', 'snake', 'tag'];
+
+// MCP clients reject longer tool names (and several reject anything but these characters)
+export const MAX_TOOL_NAME_LENGTH = 64;
+const INVALID_CHARS = /[^A-Za-z0-9_-]+/g;
+
+export interface NamedOperation {
+  operationId?: string;
+  method: string;
+  path: string;
+  tags: string[];
+}
+
+export function namingStrategyFromEnv(): NamingStrategy {
+  const value = (process.env.SCANPOWER_TOOL_NAMING || 'operationId').trim();
+  const strategy = STRATEGIES.find((s) => s.toLowerCase() === value.toLowerCase());
+  if (!strategy) {
+    // Fail loudly: a typo would otherwise rename every tool the clients know
+    throw new Error(`Unknown SCANPOWER_TOOL_NAMING "${value}". Available strategies: ${STRATEGIES.join(', ')}`);
+  }
+  return strategy;
+}
+
+// SCANPOWER_TOOL_ALIASES: comma-separated alias=target pairs; the target is a tool name or an operationId
+export function toolAliasesFromEnv(): Array<[string, string]> {
+  return (process.env.SCANPOWER_TOOL_ALIASES || '')
+    .split(',')
+    .map((pair) => pair.split('=').map((part) => part.trim()))
+    .filter((parts): parts is [string, string] => parts.length === 2 && !!parts[0] && !!parts[1]);
+}
+
+// getFBAInventory -> get, fba, inventory; UpdateBatchItemGql -> update, batch, item, gql
+export function splitWords(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+function camel(words: string[]): string {
+  return words.map((word, i) => (i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))).join('');
+}
+
+// Operations without an operationId are named after the method and the path's literal segments
+function fallbackWords(op: NamedOperation): string[] {
+  return [op.method, ...op.path.split('/').filter((segment) => segment && !segment.startsWith('{'))].flatMap(splitWords);
+}
+
+// The name earlier versions generated, kept as an alias when the strategy changes it
+export function legacyToolName(op: NamedOperation): string {
+  return op.operationId || `${op.method.toLowerCase()}_${op.path.replace(/[^a-zA-Z0-9]+/g, '_')}`;
+}
+
+/**
+ * Tool name for an operation under a strategy, before the source prefix and
+ * the length limit. `tag` puts the first tag in front of the snake_case name,
+ * unless the name already starts with it.
+ */
+export function toolNameFor(strategy: NamingStrategy, op: NamedOperation): string {
+  const words = op.operationId ? splitWords(op.operationId) : fallbackWords(op);
+  switch (strategy) {
+    case 'camel':
+      return camel(words);
+    case 'snake':
+      return words.join('_');
+    case 'tag': {
+      const tagWords = op.tags.length > 0 ? splitWords(op.tags[0]) : [];
+      const prefixed = tagWords.length > 0 && tagWords.every((word, i) => words[i] === word) ? words : [...tagWords, ...words];
+      return prefixed.join('_');
+    }
+    default:
+      return op.operationId ? op.operationId.replace(INVALID_CHARS, '_') : words.join('_');
+  }
+}
+
+function shortHash(value: string, length: number): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, length);
+}
+
+// Over-long names keep their start and end with a hash of the full name, so they stay unique
+export function fitToolName(name: string): string {
+  const clean = name.replace(INVALID_CHARS, '_');
+  if (clean.length <= MAX_TOOL_NAME_LENGTH) return clean;
+  return `${clean.slice(0, MAX_TOOL_NAME_LENGTH - 9)}_${shortHash(clean, 8)}`;
+}
+
+/**
+ * Hands out unique tool names and records aliases for one generation. A name
+ * that is already taken gets a suffix hashed from the operation (source,
+ * method and path), so the renamed tool keeps its name across restarts and
+ * reloads no matter which other operations exist.
+ */
+export class ToolNameRegistry {
+  readonly aliases = new Map<string, string>();
+  readonly collisions: string[] = [];
+  private taken: Set<string>;
+
+  constructor(reserved: string[]) {
+    this.taken = new Set(reserved);
+  }
+
+  claim(name: string, operationKey: string): string {
+    if (!this.taken.has(name)) {
+      this.taken.add(name);
+      return name;
+    }
+    const suffix = `_${shortHash(operationKey, 6)}`;
+    const unique = `${name.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length)}${suffix}`;
+    this.collisions.push(`${name} is taken; ${operationKey} is named ${unique}`);
+    this.taken.add(unique);
+    return unique;
+  }
+
+  // Tool names win over aliases, and the first alias for a name wins over later ones
+  alias(alias: string, target: string): boolean {
+    if (alias === target || this.taken.has(alias) || this.aliases.has(alias)) return false;
+    this.aliases.set(alias, target);
+    return true;
+  }
+
+  // Drop aliases that a tool claimed after they were recorded
+  prune(): void {
+    for (const alias of this.aliases.keys()) {
+      if (this.taken.has(alias)) this.aliases.delete(alias);
+    }
+  }
+}
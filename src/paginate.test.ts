@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { collectPages, detectPagination, findItemsPath } from './paginate.js';
+
+describe('pagination', () => {
+  it('detects token, offset and page pagination', () => {
+    assert.deepEqual(detectPagination(['pageSize', 'paginationToken']), { style: 'token', location: 'query', param: 'paginationToken', sizeParam: 'pageSize' });
+    assert.equal(detectPagination(['limit', 'offset'])?.style, 'offset');
+    assert.equal(detectPagination(['page'])?.style, undefined);
+    assert.equal(detectPagination([], { type: 'object', properties: { page: {}, per_page: {} } })?.location, 'body');
+  });
+
+  it('finds the item list at the top level or one object deep', () => {
+    assert.deepEqual(findItemsPath([1, 2]), []);
+    assert.deepEqual(findItemsPath({ payload: { items: [] }, errors: [] }), ['payload', 'items']);
+    assert.equal(findItemsPath({ name: 'x' }), null);
+  });
+
+  it('follows next tokens and stops on a repeated token', async () => {
+    const pages: Record<string, any> = {
+      t2: { items: [3], pagination: { nextToken: 't3' } },
+      t3: { items: [4], pagination: { nextToken: 't3' } },
+    };
+    const requested: string[] = [];
+    const { data, summary } = await collectPages(
+      { items: [1, 2], pagination: { nextToken: 't2' } },
+      { style: 'token', location: 'query', param: 'paginationToken' },
+      {},
+      { maxPages: 10, maxItems: 100 },
+      async (params) => {
+        requested.push(params.paginationToken);
+        return pages[params.paginationToken];
+      }
+    );
+    assert.deepEqual(requested, ['t2', 't3']);
+    assert.deepEqual(data.items, [1, 2, 3, 4]);
+    assert.equal(data.pagination.nextToken, undefined);
+    assert.deepEqual(summary, { pages: 3, items: 4, complete: true });
+  });
+
+  it('keeps the resume position when an offset result is capped', async () => {
+    const { data, summary } = await collectPages(
+      { rows: [1, 2] },
+      { style: 'offset', location: 'query', param: 'offset', sizeParam: 'limit' },
+      { limit: 2 },
+      { maxPages: 10, maxItems: 3 },
+      async (params) => ({ rows: [params.offset + 1, params.offset + 2] })
+    );
+    assert.deepEqual(data.rows, [1, 2, 3]);
+    assert.deepEqual(summary, { pages: 2, items: 3, complete: false, stoppedBy: 'max_items', next: { offset: 3 } });
+  });
+});
@@ -0,0 +1,196 @@
+// Pagination: detect paged list operations from the spec and fetch every page into one result
+
+export interface PaginationInfo {
+  style: 'token' | 'offset' | 'page';
+  location: 'query' | 'body';
+  param: string; // token, offset or page number parameter
+  sizeParam?: string; // page size / limit parameter, if the operation has one
+}
+
+export interface PaginationLimits {
+  maxPages: number;
+  maxItems: number;
+}
+
+export interface PaginationSummary {
+  pages: number;
+  items: number;
+  complete: boolean;
+  stoppedBy?: 'max_pages' | 'max_items';
+  // Where to resume when the result was capped
+  next?: Record<string, any>;
+}
+
+const TOKEN_PARAMS = ['paginationToken', 'nextToken', 'pageToken', 'next_token', 'pagination_token', 'cursor'];
+const OFFSET_PARAMS = ['offset', 'skip', 'start'];
+const PAGE_PARAMS = ['page', 'pageNumber', 'page_number'];
+const SIZE_PARAMS = ['pageSize', 'page_size', 'limit', 'maxResults', 'max_results', 'perPage', 'per_page'];
+// Response keys that carry the token for the next page
+const RESPONSE_TOKEN_KEYS = ['nextToken', 'next_token', 'paginationToken', 'pagination_token', 'nextPageToken', 'pageToken', 'cursor', 'nextCursor', 'next_cursor'];
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+}
+
+// Defaults from SCANPOWER_MAX_PAGES / SCANPOWER_MAX_ITEMS; per-call max_pages / max_items override them
+export function paginationLimits(args: Record<string, any>): PaginationLimits {
+  const positive = (value: any, fallback: number) => {
+    const n = Number(value);
+    return value !== undefined && Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+  };
+  return {
+    maxPages: positive(args.max_pages, envNumber('SCANPOWER_MAX_PAGES', 20)),
+    maxItems: positive(args.max_items, envNumber('SCANPOWER_MAX_ITEMS', 1000)),
+  };
+}
+
+/**
+ * Detect how an operation pages from its query parameters, falling back to
+ * top-level properties of the request body schema (for POST list operations).
+ */
+export function detectPagination(queryParams: string[], bodySchema?: any): PaginationInfo | null {
+  const bodyProps = bodySchema?.type === 'object' || bodySchema?.properties ? Object.keys(bodySchema.properties || {}) : [];
+  for (const [location, names] of [['query', queryParams], ['body', bodyProps]] as Array<['query' | 'body', string[]]>) {
+    const find = (candidates: string[]) => candidates.find((c) => names.includes(c));
+    const sizeParam = find(SIZE_PARAMS);
+    const token = find(TOKEN_PARAMS);
+    if (token) return { style: 'token', location, param: token, sizeParam };
+    const offset = find(OFFSET_PARAMS);
+    if (offset) return { style: 'offset', location, param: offset, sizeParam };
+    const page = find(PAGE_PARAMS);
+    if (page && sizeParam) return { style: 'page', location, param: page, sizeParam };
+  }
+  return null;
+}
+
+// Path to the list of items in a page: the page itself, a top-level array, or an array one object deep (e.g. payload.items)
+export function findItemsPath(page: any): string[] | null {
+  if (Array.isArray(page)) return [];
+  if (!page || typeof page !== 'object') return null;
+  const keys = Object.keys(page).filter((k) => k !== 'errors');
+  const top = keys.find((k) => Array.isArray(page[k]));
+  if (top) return [top];
+  for (const k of keys) {
+    const inner = page[k];
+    if (inner && typeof inner === 'object' && !Array.isArray(inner)) {
+      const nested = Object.keys(inner).find((ik) => ik !== 'errors' && Array.isArray(inner[ik]));
+      if (nested) return [k, nested];
+    }
+  }
+  return null;
+}
+
+// Path to the next-page token, top level or one object deep (e.g. pagination.nextToken)
+function findTokenPath(page: any): string[] | null {
+  if (!page || typeof page !== 'object' || Array.isArray(page)) return null;
+  const top = RESPONSE_TOKEN_KEYS.find((k) => k in page);
+  if (top) return [top];
+  for (const k of Object.keys(page)) {
+    const inner = page[k];
+    if (inner && typeof inner === 'object' && !Array.isArray(inner)) {
+      const nested = RESPONSE_TOKEN_KEYS.find((tk) => tk in inner);
+      if (nested) return [k, nested];
+    }
+  }
+  return null;
+}
+
+function getAt(value: any, path: string[]): any {
+  return path.reduce((v, key) => (v === undefined || v === null ? undefined : v[key]), value);
+}
+
+function setAt(value: any, path: string[], next: any): any {
+  if (path.length === 0) return next;
+  const [head, ...rest] = path;
+  const copy = { ...value };
+  if (rest.length === 0 && next === undefined) {
+    delete copy[head];
+  } else {
+    copy[head] = setAt(value?.[head], rest, next);
+  }
+  return copy;
+}
+
+/**
+ * Follow pages from the first response until there is no next page or a cap is
+ * reached. Items are concatenated into the first page's shape; when capped,
+ * the token (or offset/page) to resume from is kept in the result and summary.
+ * fetchPage is called with the pagination parameters for the next request.
+ */
+export async function collectPages(
+  first: any,
+  pagination: PaginationInfo,
+  currentArgs: Record<string, any>,
+  limits: PaginationLimits,
+  fetchPage: (params: Record<string, any>) => Promise<any>
+): Promise<{ data: any; summary: PaginationSummary }> {
+  const itemsPath = findItemsPath(first);
+  if (!itemsPath) {
+    // Nothing to concatenate; return the single page as-is
+    return { data: first, summary: { pages: 1, items: 0, complete: true } };
+  }
+
+  const items: any[] = [...(getAt(first, itemsPath) || [])];
+  const pageSize = Number(pagination.sizeParam ? currentArgs[pagination.sizeParam] : undefined) || undefined;
+  let page = first;
+  let pages = 1;
+  const start = Number(currentArgs[pagination.param]) || (pagination.style === 'page' ? 1 : 0);
+  let position = start;
+  let lastPageCount = items.length;
+  const seenTokens = new Set<string>();
+  let stoppedBy: PaginationSummary['stoppedBy'];
+  let next: Record<string, any> | undefined;
+
+  while (true) {
+    // Work out the parameters for the following page, if there is one
+    if (pagination.style === 'token') {
+      const tokenPath = findTokenPath(page);
+      const token = tokenPath ? getAt(page, tokenPath) : undefined;
+      if (typeof token !== 'string' || !token || seenTokens.has(token)) {
+        next = undefined;
+      } else {
+        seenTokens.add(token);
+        next = { [pagination.param]: token };
+      }
+    } else {
+      const exhausted = lastPageCount === 0 || (pageSize !== undefined && lastPageCount < pageSize);
+      position = pagination.style === 'offset' ? position + lastPageCount : position + 1;
+      next = exhausted ? undefined : { [pagination.param]: position };
+    }
+    if (!next) break;
+    if (items.length >= limits.maxItems) {
+      stoppedBy = 'max_items';
+      break;
+    }
+    if (pages >= limits.maxPages) {
+      stoppedBy = 'max_pages';
+      break;
+    }
+
+    page = await fetchPage(next);
+    pages++;
+    const pageItems = getAt(page, itemsPath);
+    lastPageCount = Array.isArray(pageItems) ? pageItems.length : 0;
+    if (Array.isArray(pageItems)) items.push(...pageItems);
+  }
+
+  // Only an offset can resume mid-page; token and page-number results keep the whole last page instead
+  if (items.length > limits.maxItems && pagination.style === 'offset') {
+    items.length = limits.maxItems;
+    stoppedBy = 'max_items';
+    next = { [pagination.param]: start + items.length };
+  }
+
+  let data = setAt(first, itemsPath, items);
+  if (pagination.style === 'token') {
+    const tokenPath = findTokenPath(first);
+    if (tokenPath) {
+      data = setAt(data, tokenPath, stoppedBy && next ? next[pagination.param] : undefined);
+    }
+  }
+  return {
+    data,
+    summary: { pages, items: items.length, complete: !stoppedBy, ...(stoppedBy ? { stoppedBy, next } : {}) },
+  };
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { completePromptArgument, getPrompt, listPrompts, ToolResolver } from './prompts.js';
+
+const FBA_TOOLS = [
+  'createInboundPlan', 'getInboundPlan', 'generatePackingOptions', 'listPackingOptions', 'confirmPackingOption',
+  'setPackingInformation', 'generatePlacementOptions', 'listPlacementOptions', 'confirmPlacementOption',
+  'generateTransportationOptions', 'listTransportationOptions', 'confirmTransportationOptions',
+  'getLabels', 'getInboundOperationStatus',
+];
+
+// Tools named like the snake naming strategy would
+function snakeResolver(operationIds: string[]): ToolResolver {
+  return (operationId) => (operationIds.includes(operationId) ? operationId.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`) : undefined);
+}
+
+function promptText(args: Record<string, string>, resolveTool: ToolResolver): string {
+  const content = getPrompt('fba-inbound-shipment', args, resolveTool).messages[0].content;
+  return content.type === 'text' ? content.text : '';
+}
+
+describe('workflow prompts', () => {
+  it('offers a workflow only when all of its tools are available', () => {
+    assert.deepEqual(listPrompts(snakeResolver(FBA_TOOLS)).map((prompt) => prompt.name), ['fba-inbound-shipment']);
+    assert.deepEqual(listPrompts(snakeResolver(FBA_TOOLS.slice(1))), []);
+    assert.throws(() => getPrompt('fba-inbound-shipment', {}, snakeResolver(FBA_TOOLS.slice(1))), /excludes createInboundPlan/);
+  });
+
+  it('names tools as they are currently exposed, leaving field names alone', () => {
+    const text = promptText({ shipping_mode: 'LTL' }, snakeResolver(FBA_TOOLS));
+    assert.match(text, /`confirm_placement_option` with the chosen `placementOptionId`/);
+    assert.doesNotMatch(text, /`confirmPlacementOption`/);
+  });
+
+  it('leaves out optional steps whose tools are unavailable', () => {
+    const without = promptText({ shipping_mode: 'LTL', batch_id: 'B1' }, snakeResolver(FBA_TOOLS));
+    assert.doesNotMatch(without, /DeliveryWindow|delivery_window|bill_of_lading|from_batch/);
+    assert.match(without, /`create_inbound_plan`/);
+
+    const all = [...FBA_TOOLS, 'createInboundPlanFromBatch', 'generateDeliveryWindowOptions', 'confirmDeliveryWindowOptions', 'getBillOfLading'];
+    const withOptional = promptText({ shipping_mode: 'LTL', batch_id: 'B1' }, snakeResolver(all));
+    assert.match(withOptional, /`create_inbound_plan_from_batch` for batch `B1`/);
+    assert.match(withOptional, /`generate_delivery_window_options`/);
+    assert.match(withOptional, /`get_bill_of_lading`/);
+  });
+
+  it('completes argument choices', () => {
+    assert.deepEqual(completePromptArgument('fba-inbound-shipment', 'shipping_mode', 'l'), ['LTL']);
+    assert.deepEqual(completePromptArgument('walmart-inbound-shipment', 'carrier', ''), ['walmart', 'own']);
+  });
+});
@@ -0,0 +1,164 @@
+// MCP prompts: step-by-step guides for the multi-call inbound workflows (Amazon FBA v2024 and Walmart WFS)
+import { ErrorCode, GetPromptResult, McpError, Prompt } from '@modelcontextprotocol/sdk/types.js';
+
+interface WorkflowPrompt {
+  prompt: Prompt;
+  // Every tool the workflow calls; the prompt is only offered when all of them are available
+  tools: string[];
+  // Tools for optional steps, which are left out when the tool isn't available
+  optionalTools?: string[];
+  // Allowed values for arguments, offered as completions
+  choices?: Record<string, string[]>;
+  render: (args: Record<string, string>, has: (operationId: string) => boolean) => string;
+}
+
+const POLLING = [
+  'Every generate*/confirm*/set*/create* call in this workflow is asynchronous and returns an `operationId`.',
+  'Pass `wait: true` to those calls so the result includes the final `operation` status.',
+  'Without it (or when the wait times out), call `getInboundOperationStatus` with the `operationId` every few seconds until `operationStatus` is `SUCCESS` or `FAILED`.',
+  'Do not start the next step while the status is `IN_PROGRESS`. On `FAILED`, show the `operationProblems` and stop.',
+].join(' ');
+
+const CONFIRMATIONS = 'Confirm* calls are irreversible for the plan and require the user\'s confirmation; show the option you are about to confirm (fees, dates, carrier) before calling.';
+
+function numbered(steps: string[]): string {
+  return steps.map((step, i) => `${i + 1}. ${step}`).join('\n');
+}
+
+const FBA_INBOUND: WorkflowPrompt = {
+  prompt: {
+    name: 'fba-inbound-shipment',
+    title: 'Send an Amazon FBA inbound shipment',
+    description: 'Walk through the FBA Inbound v2024-03-20 sequence: plan, packing, placement, transportation and labels',
+    arguments: [
+      { name: 'inbound_plan_id', description: 'Resume an existing inbound plan instead of creating one' },
+      { name: 'batch_id', description: 'Create the plan from the items in this ScanPower batch' },
+      { name: 'shipping_mode', description: 'SPD (small parcel) or LTL (pallets); default SPD' },
+      { name: 'label_type', description: 'Box label page type for getLabels, e.g. PackageLabel_Letter_2' },
+    ],
+  },
+  tools: [
+    'createInboundPlan', 'getInboundPlan', 'generatePackingOptions', 'listPackingOptions', 'confirmPackingOption',
+    'setPackingInformation', 'generatePlacementOptions', 'listPlacementOptions', 'confirmPlacementOption',
+    'generateTransportationOptions', 'listTransportationOptions', 'confirmTransportationOptions',
+    'getLabels', 'getInboundOperationStatus',
+  ],
+  optionalTools: ['createInboundPlanFromBatch', 'listPackingGroupItems', 'generateDeliveryWindowOptions', 'confirmDeliveryWindowOptions', 'getBillOfLading'],
+  choices: { shipping_mode: ['SPD', 'LTL'] },
+  render: (args, has) => {
+    const mode = (args.shipping_mode || 'SPD').toUpperCase();
+    const start = args.inbound_plan_id
+      ? `Use the existing inbound plan \`${args.inbound_plan_id}\`. Call \`getInboundPlan\` first and skip the steps its status shows are already done.`
+      : args.batch_id && has('createInboundPlanFromBatch')
+        ? `Create the plan with \`createInboundPlanFromBatch\` for batch \`${args.batch_id}\` and keep the returned \`inboundPlanId\`.`
+        : 'Create the plan with `createInboundPlan` (source address, destination marketplace and items with MSKU, quantity, labelOwner and prepOwner) and keep the returned `inboundPlanId`.';
+    const steps = [
+      start,
+      '`generatePackingOptions` for the plan, then `listPackingOptions`. Present the options (packing groups, fees, discounts) and pick one with the user.',
+      '`confirmPackingOption` with the chosen `packingOptionId`.',
+      `\`setPackingInformation\`: box dimensions, weights and the items in each box, for every packing group of the confirmed option${has('listPackingGroupItems') ? ' (use `listPackingGroupItems` to see what goes in each group)' : ''}.`,
+      '`generatePlacementOptions`, then `listPlacementOptions`. Present the shipment splits and placement fees and pick one with the user.',
+      '`confirmPlacementOption` with the chosen `placementOptionId`. The plan now has its shipment IDs.',
+      `\`generateTransportationOptions\` for each shipment (shipping mode ${mode}${mode === 'LTL' ? ', with pallet details and freight information' : ''}), then \`listTransportationOptions\`. Present carriers and quotes and pick one per shipment with the user.`,
+      ...(mode === 'LTL' && has('generateDeliveryWindowOptions') && has('confirmDeliveryWindowOptions')
+        ? ['When a carrier needs one, `generateDeliveryWindowOptions` and `confirmDeliveryWindowOptions` for each shipment before confirming transportation.']
+        : []),
+      '`confirmTransportationOptions` with the chosen option for every shipment.',
+      `\`getLabels\` for each shipment${args.label_type ? ` with PageType \`${args.label_type}\`` : ''}${mode === 'LTL' ? `, plus pallet labels${has('getBillOfLading') ? ' and `getBillOfLading` once the carrier has issued it' : ''}` : ''}. Return the label files to the user.`,
+    ];
+    return [
+      'Send an Amazon FBA inbound shipment using the FBA Inbound v2024-03-20 tools, in exactly this order:',
+      '',
+      numbered(steps),
+      '',
+      POLLING,
+      CONFIRMATIONS,
+      'Track every ID you receive (inboundPlanId, packingOptionId, placementOptionId, shipmentIds, transportationOptionIds) and finish with a summary of them.',
+    ].join('\n');
+  },
+};
+
+const WALMART_INBOUND: WorkflowPrompt = {
+  prompt: {
+    name: 'walmart-inbound-shipment',
+    title: 'Send a Walmart WFS inbound shipment',
+    description: 'Walk through the Walmart inbound sequence: preview, shipment, boxes, labels and carrier',
+    arguments: [
+      { name: 'batch_id', description: 'ScanPower Walmart batch to ship' },
+      { name: 'shipment_id', description: 'Resume an existing inbound shipment instead of creating one' },
+      { name: 'carrier', description: 'walmart (partnered carrier) or own (your carrier, tracking numbers); default walmart' },
+    ],
+  },
+  tools: [
+    'selectBatchItems', 'fetchInboundPreview', 'createInboundShipment', 'getInboundShipments', 'getInboundShipmentErrors',
+    'insertWmBoxes', 'createInboundShipmentLabel', 'createCarrierRateQuote', 'printCarrierLabel', 'updateWmShipmentTrackingDetails',
+  ],
+  choices: { carrier: ['walmart', 'own'] },
+  render: (args) => {
+    const ownCarrier = (args.carrier || 'walmart').toLowerCase() === 'own';
+    const steps = args.shipment_id
+      ? [`Use the existing inbound shipment \`${args.shipment_id}\`. Call \`getInboundShipments\` for it and skip the steps its status shows are already done.`]
+      : [
+        `\`selectBatchItems\` for batch \`${args.batch_id || '<ask the user for the batch>'}\` and review the items and quantities with the user.`,
+        '`fetchInboundPreview` for those items. Present the fulfillment center split and any item errors; resolve errors before continuing.',
+        '`createInboundShipment` from the preview. Keep the shipment IDs it returns. If it fails, `getInboundShipmentErrors` explains why.',
+      ];
+    steps.push(
+      '`insertWmBoxes`: the boxes for each shipment with dimensions, weight and the items in each box.',
+      '`createInboundShipmentLabel` for each shipment and return the box label files to the user.',
+      ...(ownCarrier
+        ? ['`updateWmShipmentTrackingDetails` with the carrier name and tracking numbers for each shipment.']
+        : [
+          '`createCarrierRateQuote` for each shipment. Present the quote (carrier, cost, pickup) and get the user\'s approval.',
+          '`printCarrierLabel` for each approved shipment and return the carrier label files. This accepts the quote and can\'t be undone.',
+        ]),
+    );
+    return [
+      'Send a Walmart Fulfillment Services (WFS) inbound shipment, in exactly this order:',
+      '',
+      numbered(steps),
+      '',
+      'Check each response for errors before moving on; quantities must match between the batch, the shipment and the boxes.',
+      'Finish with a summary of the shipment IDs, box count and labels produced.',
+    ].join('\n');
+  },
+};
+
+const WORKFLOW_PROMPTS: WorkflowPrompt[] = [FBA_INBOUND, WALMART_INBOUND];
+
+// Current tool name of an operationId, or undefined when the operation isn't available
+export type ToolResolver = (operationId: string) => string | undefined;
+
+// Prompts whose tools are all available (tool filtering can remove some)
+export function listPrompts(resolveTool: ToolResolver): Prompt[] {
+  return WORKFLOW_PROMPTS.filter((w) => w.tools.every((tool) => resolveTool(tool))).map((w) => w.prompt);
+}
+
+// The workflows are written with operationIds; the naming strategy and source prefixes may name the tools differently
+function withToolNames(text: string, workflow: WorkflowPrompt, resolveTool: ToolResolver): string {
+  const known = [...workflow.tools, ...(workflow.optionalTools || [])];
+  return text.replace(/`([A-Za-z]\w*)`/g, (match, operationId) => {
+    const toolName = known.includes(operationId) ? resolveTool(operationId) : undefined;
+    return toolName ? `\`${toolName}\`` : match;
+  });
+}
+
+export function getPrompt(name: string, args: Record<string, string> | undefined, resolveTool: ToolResolver): GetPromptResult {
+  const workflow = WORKFLOW_PROMPTS.find((w) => w.prompt.name === name);
+  if (!workflow) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  const missing = workflow.tools.filter((tool) => !resolveTool(tool));
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} is unavailable; the tool filter excludes ${missing.join(', ')}`);
+  }
+  return {
+    description: workflow.prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text: withToolNames(workflow.render(args || {}, (operationId) => !!resolveTool(operationId)), workflow, resolveTool) } }],
+  };
+}
+
+export function completePromptArgument(name: string, argument: string, value: string): string[] {
+  const choices = WORKFLOW_PROMPTS.find((w) => w.prompt.name === name)?.choices?.[argument] || [];
+  return choices.filter((choice) => choice.toLowerCase().startsWith(value.toLowerCase()));
+}
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, describe, it } from 'node:test';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { diffTools, formatReloadResult, hasToolChanges, reloadIntervalMs, reloadToolEnabled } from './reload.js';
+import { loadSpecIfChanged } from './spec.js';
+
+const tool = (name: string, description: string = name): Tool => ({ name, description, inputSchema: { type: 'object' } });
+
+describe('diffTools', () => {
+  it('reports added, removed and changed tools by name', () => {
+    const changes = diffTools([tool('a'), tool('b'), tool('c')], [tool('a'), tool('b', 'new description'), tool('d')]);
+    assert.deepEqual(changes, { added: ['d'], removed: ['c'], changed: ['b'] });
+    assert.equal(hasToolChanges(changes), true);
+    assert.equal(hasToolChanges(diffTools([tool('a')], [tool('a')])), false);
+  });
+
+  it('summarizes a reload', () => {
+    const text = formatReloadResult({ trigger: 'tool', status: 'updated', sources: ['spec.json'], tools: 2, added: ['d'], removed: [], changed: ['b'] });
+    assert.match(text, /^Reloaded the spec from spec\.json: 1 added \(d\), 1 changed \(b\)\. 2 tools available\./);
+  });
+});
+
+describe('reload schedule', () => {
+  it('defaults to hourly and turns off with 0', () => {
+    assert.equal(reloadIntervalMs(), 3_600_000);
+    process.env.SCANPOWER_SPEC_RELOAD_INTERVAL = '0';
+    assert.equal(reloadIntervalMs(), 0);
+    process.env.SCANPOWER_SPEC_RELOAD_INTERVAL = '90';
+    assert.equal(reloadIntervalMs(), 90_000);
+    delete process.env.SCANPOWER_SPEC_RELOAD_INTERVAL;
+  });
+
+  it('offers the reload tool only when SCANPOWER_RELOAD_TOOL is set', () => {
+    assert.equal(reloadToolEnabled(), false);
+    process.env.SCANPOWER_RELOAD_TOOL = 'Yes';
+    assert.equal(reloadToolEnabled(), true);
+    process.env.SCANPOWER_RELOAD_TOOL = 'false';
+    assert.equal(reloadToolEnabled(), false);
+    delete process.env.SCANPOWER_RELOAD_TOOL;
+  });
+});
+
+describe('loadSpecIfChanged', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reload-test-'));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('skips files whose modification time or content has not changed', async () => {
+    const file = path.join(dir, 'spec.json');
+    fs.writeFileSync(file, '{"paths": {}}');
+    const first = await loadSpecIfChanged(file);
+    assert.deepEqual(first.doc, { paths: {} });
+    assert.equal((await loadSpecIfChanged(file, first.version)).doc, null);
+
+    fs.utimesSync(file, new Date(), new Date(Date.now() + 5000));
+    const touched = await loadSpecIfChanged(file, first.version);
+    assert.equal(touched.doc, null);
+
+    fs.writeFileSync(file, '{"paths": {"/ping": {}}}');
+    fs.utimesSync(file, new Date(), new Date(Date.now() + 10000));
+    assert.deepEqual((await loadSpecIfChanged(file, touched.version)).doc, { paths: { '/ping': {} } });
+  });
+});
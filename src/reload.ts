@@ -0,0 +1,101 @@
+// Spec hot reload: re-check the configured OpenAPI specs on a schedule or on request and report what changed
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export type ReloadTrigger = 'schedule' | 'tool';
+
+export interface ToolChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface ReloadResult extends ToolChanges {
+  trigger: ReloadTrigger;
+  // updated: a new spec version is live; unchanged: nothing to do; failed: the current tools were kept
+  status: 'updated' | 'unchanged' | 'failed';
+  sources: string[]; // spec locations that were checked
+  tools: number;
+  error?: string;
+}
+
+export const NO_CHANGES: ToolChanges = { added: [], removed: [], changed: [] };
+
+export const RELOAD_TOOL: Tool = {
+  name: 'reloadSpec',
+  description: 'Re-fetch the configured OpenAPI specs now and regenerate the tools if any changed (admin)',
+  inputSchema: { type: 'object', properties: {} },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      trigger: { type: 'string', enum: ['schedule', 'tool'] },
+      status: { type: 'string', enum: ['updated', 'unchanged', 'failed'] },
+      sources: { type: 'array', items: { type: 'string' } },
+      tools: { type: 'integer', description: 'Tools generated from the spec that is now live' },
+      added: { type: 'array', items: { type: 'string' } },
+      removed: { type: 'array', items: { type: 'string' } },
+      changed: { type: 'array', items: { type: 'string' } },
+      error: { type: 'string' },
+    },
+    required: ['trigger', 'status', 'sources', 'tools', 'added', 'removed', 'changed'],
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+};
+
+// The reload tool makes the server fetch every spec on any client's request, so it is opt-in (SCANPOWER_RELOAD_TOOL=true)
+export function reloadToolEnabled(): boolean {
+  return ['1', 'true', 'yes', 'on'].includes((process.env.SCANPOWER_RELOAD_TOOL || '').trim().toLowerCase());
+}
+
+// SCANPOWER_SPEC_RELOAD_INTERVAL in seconds, default one hour; 0 turns the schedule off
+export function reloadIntervalMs(): number {
+  const raw = process.env.SCANPOWER_SPEC_RELOAD_INTERVAL;
+  const seconds = raw === undefined || raw.trim() === '' ? 3600 : Number(raw);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+}
+
+// Tools by name; a tool counts as changed when its schema, description or annotations differ
+export function diffTools(before: Tool[], after: Tool[]): ToolChanges {
+  const old = new Map(before.map((tool) => [tool.name, JSON.stringify(tool)]));
+  const current = new Map(after.map((tool) => [tool.name, JSON.stringify(tool)]));
+  return {
+    added: after.filter((tool) => !old.has(tool.name)).map((tool) => tool.name),
+    removed: before.filter((tool) => !current.has(tool.name)).map((tool) => tool.name),
+    changed: after.filter((tool) => old.has(tool.name) && old.get(tool.name) !== current.get(tool.name)).map((tool) => tool.name),
+  };
+}
+
+export function hasToolChanges(changes: ToolChanges): boolean {
+  return changes.added.length > 0 || changes.removed.length > 0 || changes.changed.length > 0;
+}
+
+function nameList(label: string, names: string[]): string | undefined {
+  if (names.length === 0) return undefined;
+  const shown = names.slice(0, 20).join(', ');
+  return `${names.length} ${label} (${shown}${names.length > 20 ? ', ...' : ''})`;
+}
+
+export function formatReloadResult(result: ReloadResult): string {
+  const from = result.sources.join(', ');
+  let headline: string;
+  if (result.status === 'failed') {
+    headline = `Reloading the spec from ${from} failed; the current ${result.tools} tools are kept. ${result.error || ''}`.trim();
+  } else if (result.status === 'unchanged') {
+    headline = `The spec at ${from} is unchanged; ${result.tools} tools available.`;
+  } else {
+    const changes = [nameList('added', result.added), nameList('removed', result.removed), nameList('changed', result.changed)].filter(Boolean);
+    headline = `Reloaded the spec from ${from}: ${changes.length > 0 ? changes.join(', ') : 'no tool changes'}. ${result.tools} tools available.`;
+  }
+  return `${headline}\n${JSON.stringify(result, null, 2)}`;
+}
+
+/**
+ * Run `reload` every `intervalMs`. The timer doesn't keep the process alive;
+ * the returned function stops it.
+ */
+export function scheduleReload(intervalMs: number, reload: () => Promise<unknown>): () => void {
+  const timer = setInterval(() => {
+    void reload();
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,266 @@
+// MCP resources: the loaded OpenAPI specs, full per-operation documentation and an index of operations by tag
+import { McpError, ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { derefObject, resolveSchema } from './schema.js';
+
+// An operation exposed as a tool (after tool filtering)
+export interface OperationEntry {
+  toolName: string;
+  operationId: string; // as in the spec, or generated from method and path
+  source: string; // name of the spec source the operation comes from
+  method: string; // upper case
+  path: string;
+  tags: string[];
+  risk: string;
+}
+
+// The first source's spec; every source's spec is also at scanpower://openapi/<source>.json
+export const SPEC_URI = 'scanpower://openapi.json';
+export const TAGS_URI = 'scanpower://tags';
+const SOURCE_SPEC_PREFIX = 'scanpower://openapi/';
+const OPERATION_PREFIX = 'scanpower://operations/';
+const TAG_PREFIX = 'scanpower://tags/';
+const SEARCH_PREFIX = 'scanpower://search/';
+const UNTAGGED = 'Untagged';
+const MAX_COMPLETIONS = 100;
+// JSON-RPC error code the MCP spec assigns to unknown resource URIs
+const RESOURCE_NOT_FOUND = -32002;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${OPERATION_PREFIX}{operationId}`,
+    name: 'operation',
+    title: 'Operation documentation',
+    description: 'Full documentation of one tool: parameters, request body and response schemas',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: `${TAG_PREFIX}{tag}`,
+    name: 'tag',
+    title: 'Operations by tag',
+    description: 'The operations under one OpenAPI tag, with links to their documentation',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: `${SEARCH_PREFIX}{query}`,
+    name: 'search',
+    title: 'Search operations',
+    description: 'Operations whose name, summary, tag or path contains every word of the query',
+    mimeType: 'text/markdown',
+  },
+];
+
+function schemaBlock(schema: any): string {
+  return ['```json', JSON.stringify(schema, null, 2), '```'].join('\n');
+}
+
+// Markdown table cells can't hold pipes or line breaks
+function cell(value: unknown): string {
+  return String(value ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function schemaType(schema: any): string {
+  if (!schema) return '';
+  if (schema.type === 'array') return `${schemaType(schema.items) || 'any'}[]`;
+  const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type || (schema.properties ? 'object' : '');
+  return [type, schema.format ? `(${schema.format})` : '', schema.enum ? `: ${schema.enum.join(', ')}` : ''].filter(Boolean).join(' ');
+}
+
+/**
+ * Serves the spec and the generated docs of the operations that are exposed as
+ * tools. Rebuilt whenever the tools are, so it never lists an operation that
+ * can't be called.
+ */
+export class ResourceCatalog {
+  private operations = new Map<string, OperationEntry>();
+  private tags = new Map<string, OperationEntry[]>();
+
+  // Spec documents by source name, in source order
+  constructor(private docs: Map<string, any>, entries: OperationEntry[]) {
+    for (const entry of entries) {
+      this.operations.set(entry.toolName, entry);
+      for (const tag of entry.tags.length > 0 ? entry.tags : [UNTAGGED]) {
+        const list = this.tags.get(tag) ?? [];
+        list.push(entry);
+        this.tags.set(tag, list);
+      }
+    }
+  }
+
+  static empty(): ResourceCatalog {
+    return new ResourceCatalog(new Map(), []);
+  }
+
+  list(): Resource[] {
+    const primary = this.primaryDoc();
+    if (!primary) return [];
+    const resources: Resource[] = [
+      {
+        uri: SPEC_URI,
+        name: 'openapi',
+        title: `OpenAPI spec${primary.info?.version ? ` (${primary.info.version})` : ''}`,
+        description: 'The ScanPower OpenAPI document the tools were generated from',
+        mimeType: 'application/json',
+      },
+    ];
+    if (this.docs.size > 1) {
+      for (const [source, doc] of this.docs) {
+        resources.push({
+          uri: `${SOURCE_SPEC_PREFIX}${encodeURIComponent(source)}.json`,
+          name: `openapi:${source}`,
+          title: `OpenAPI spec of ${source}${doc.info?.version ? ` (${doc.info.version})` : ''}`,
+          description: `The OpenAPI document of the ${source} source`,
+          mimeType: 'application/json',
+        });
+      }
+    }
+    resources.push(
+      {
+        uri: TAGS_URI,
+        name: 'tags',
+        title: 'Operation index',
+        description: `All ${this.operations.size} operations, grouped by tag`,
+        mimeType: 'text/markdown',
+      },
+    );
+    for (const [tag, entries] of this.sortedTags()) {
+      resources.push({
+        uri: `${TAG_PREFIX}${encodeURIComponent(tag)}`,
+        name: `tag:${tag}`,
+        title: tag,
+        description: `${entries.length} operation(s) tagged ${tag}`,
+        mimeType: 'text/markdown',
+      });
+    }
+    return resources;
+  }
+
+  read(uri: string): ReadResourceResult {
+    const text = (mimeType: string, body: string): ReadResourceResult => ({ contents: [{ uri, mimeType, text: body }] });
+    if (uri === SPEC_URI && this.primaryDoc()) {
+      return text('application/json', JSON.stringify(this.primaryDoc(), null, 2));
+    }
+    if (uri.startsWith(SOURCE_SPEC_PREFIX) && uri.endsWith('.json')) {
+      const doc = this.docs.get(decodeURIComponent(uri.slice(SOURCE_SPEC_PREFIX.length, -'.json'.length)));
+      if (doc) return text('application/json', JSON.stringify(doc, null, 2));
+    }
+    if (uri === TAGS_URI) {
+      return text('text/markdown', this.tagIndex());
+    }
+    if (uri.startsWith(OPERATION_PREFIX)) {
+      const entry = this.operations.get(decodeURIComponent(uri.slice(OPERATION_PREFIX.length)));
+      if (entry) return text('text/markdown', this.operationDoc(entry));
+    }
+    if (uri.startsWith(TAG_PREFIX)) {
+      const tag = decodeURIComponent(uri.slice(TAG_PREFIX.length));
+      const entries = this.tags.get(tag);
+      if (entries) return text('text/markdown', `# ${tag}\n\n${this.operationList(entries)}`);
+    }
+    if (uri.startsWith(SEARCH_PREFIX)) {
+      const query = decodeURIComponent(uri.slice(SEARCH_PREFIX.length));
+      const matches = this.search(query);
+      const body = matches.length > 0 ? this.operationList(matches) : 'No operations match.';
+      return text('text/markdown', `# Operations matching "${query}"\n\n${body}`);
+    }
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+  }
+
+  // Values for a resource template variable that start with (or contain) what was typed so far
+  complete(variable: string, value: string): string[] {
+    const candidates = variable === 'operationId'
+      ? Array.from(this.operations.keys())
+      : variable === 'tag'
+        ? Array.from(this.tags.keys())
+        : [];
+    const typed = value.toLowerCase();
+    const prefixed = candidates.filter((c) => c.toLowerCase().startsWith(typed));
+    const contained = candidates.filter((c) => !c.toLowerCase().startsWith(typed) && c.toLowerCase().includes(typed));
+    return [...prefixed.sort(), ...contained.sort()].slice(0, MAX_COMPLETIONS);
+  }
+
+  private primaryDoc(): any {
+    return this.docs.values().next().value;
+  }
+
+  private sortedTags(): Array<[string, OperationEntry[]]> {
+    return Array.from(this.tags.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }
+
+  private specOperation(entry: OperationEntry): any {
+    return this.docs.get(entry.source)?.paths?.[entry.path]?.[entry.method.toLowerCase()] || {};
+  }
+
+  private search(query: string): OperationEntry[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return Array.from(this.operations.values()).filter((entry) => {
+      const op = this.specOperation(entry);
+      const haystack = [entry.toolName, entry.operationId, entry.path, ...entry.tags, op.summary, op.description].join(' ').toLowerCase();
+      return words.every((word) => haystack.includes(word));
+    });
+  }
+
+  private operationList(entries: OperationEntry[]): string {
+    return entries
+      .map((entry) => {
+        const summary = this.specOperation(entry).summary;
+        return `- [${entry.toolName}](${OPERATION_PREFIX}${encodeURIComponent(entry.toolName)}) \`${entry.method} ${entry.path}\`${summary ? `: ${cell(summary)}` : ''}`;
+      })
+      .join('\n');
+  }
+
+  private tagIndex(): string {
+    const sections = this.sortedTags().map(([tag, entries]) => `## ${tag}\n\n${this.operationList(entries)}`);
+    return [`# Operations (${this.operations.size})`, ...sections].join('\n\n');
+  }
+
+  private operationDoc(entry: OperationEntry): string {
+    const doc = this.docs.get(entry.source);
+    const op = this.specOperation(entry);
+    const lines: string[] = [
+      `# ${entry.toolName}`,
+      '',
+      `\`${entry.method} ${entry.path}\``,
+      '',
+      `Tags: ${entry.tags.join(', ') || UNTAGGED}. Risk: ${entry.risk}.${this.docs.size > 1 ? ` Source: ${entry.source}.` : ''}${op.deprecated ? ' **Deprecated.**' : ''}`,
+    ];
+    if (entry.operationId !== entry.toolName) lines.push('', `Operation ID: \`${entry.operationId}\``);
+    if (op.summary) lines.push('', op.summary);
+    if (op.description && op.description !== op.summary) lines.push('', op.description);
+
+    // Operation-level parameters override path-level ones, as in the tool schema
+    const params = new Map<string, any>();
+    for (const raw of [...(doc.paths?.[entry.path]?.parameters || []), ...(op.parameters || [])]) {
+      const p = derefObject(doc, raw);
+      if (p?.name && p?.in) params.set(`${p.in}:${p.name}`, p);
+    }
+    if (params.size > 0) {
+      lines.push('', '## Parameters', '', '| Argument | In | Type | Required | Description |', '| --- | --- | --- | --- | --- |');
+      for (const p of params.values()) {
+        const schema = resolveSchema(doc, p.schema || { type: 'string' });
+        const argName = p.name.replace(/[-.]/g, '_');
+        lines.push(`| \`${argName}\` | ${p.in} | ${cell(schemaType(schema))} | ${p.in === 'path' || p.required ? 'yes' : 'no'} | ${cell(p.description || schema.description)} |`);
+      }
+    }
+
+    const requestBody = derefObject(doc, op.requestBody);
+    if (requestBody?.content) {
+      lines.push('', '## Request body (`body`)', '');
+      lines.push(`${requestBody.required ? 'Required.' : 'Optional.'}${requestBody.description ? ` ${requestBody.description}` : ''}`);
+      for (const [contentType, media] of Object.entries<any>(requestBody.content)) {
+        lines.push('', `### ${contentType}`, '', schemaBlock(resolveSchema(doc, media?.schema || {})));
+      }
+    }
+
+    const responses = Object.entries<any>(op.responses || {});
+    if (responses.length > 0) {
+      lines.push('', '## Responses');
+      for (const [status, raw] of responses) {
+        const response = derefObject(doc, raw) || {};
+        lines.push('', `### ${status}${response.description ? `: ${cell(response.description)}` : ''}`);
+        for (const [contentType, media] of Object.entries<any>(response.content || {})) {
+          lines.push('', `${contentType}:`, '', media?.schema ? schemaBlock(resolveSchema(doc, media.schema, 'output')) : '(no schema)');
+        }
+      }
+    }
+    return lines.join('\n');
+  }
+}
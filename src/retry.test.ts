@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isRetryableError, loadRetryConfig, maxRetriesFor, retryDelayMs, serverRequestedDelayMs } from './retry.js';
+
+describe('retry policy', () => {
+  it('retries rate limits, server errors and network failures only', () => {
+    assert.equal(isRetryableError({ response: { status: 429 } }), true);
+    assert.equal(isRetryableError({ response: { status: 503 } }), true);
+    assert.equal(isRetryableError({ response: { status: 400 } }), false);
+    assert.equal(isRetryableError({ response: { status: 501 } }), false);
+    assert.equal(isRetryableError({ code: 'ECONNRESET' }), true);
+    assert.equal(isRetryableError(new Error('boom')), false);
+  });
+
+  it('retries idempotent methods unless an operation overrides it', () => {
+    process.env.SCANPOWER_RETRY_MAX = '2';
+    process.env.SCANPOWER_RETRY_OPERATIONS = 'createInboundPlan=4, listInboundPlans=0, bogus=x';
+    const config = loadRetryConfig();
+    delete process.env.SCANPOWER_RETRY_MAX;
+    delete process.env.SCANPOWER_RETRY_OPERATIONS;
+    assert.equal(maxRetriesFor(config, 'get'), 2);
+    assert.equal(maxRetriesFor(config, 'POST'), 0);
+    assert.equal(maxRetriesFor(config, 'POST', 'createInboundPlan'), 4);
+    assert.equal(maxRetriesFor(config, 'GET', 'listInboundPlans'), 0);
+    assert.equal(config.operationOverrides.has('bogus'), false);
+  });
+});
+
+describe('retry delays', () => {
+  const config = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 5000, operationOverrides: new Map<string, number>() };
+
+  it('reads Retry-After seconds and dates and the SP-API rate limit', () => {
+    assert.equal(serverRequestedDelayMs({ 'retry-after': '2' }), 2000);
+    const date = serverRequestedDelayMs({ 'retry-after': new Date(Date.now() + 5000).toUTCString() })!;
+    assert.ok(date > 3000 && date <= 5000);
+    assert.equal(serverRequestedDelayMs({ 'x-amzn-ratelimit-limit': '0.5' }), 2000);
+    assert.equal(serverRequestedDelayMs({}), undefined);
+  });
+
+  it('backs off exponentially with jitter and never waits less than the server asks', () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const delay = retryDelayMs(config, attempt)!;
+      assert.ok(delay >= 0 && delay <= Math.min(5000, 100 * 2 ** attempt));
+    }
+    assert.ok(retryDelayMs(config, 0, { 'retry-after': '1' })! >= 1000);
+  });
+
+  it('gives up when the server asks for more than the maximum delay', () => {
+    assert.equal(retryDelayMs(config, 0, { 'retry-after': '60' }), null);
+  });
+});
@@ -0,0 +1,111 @@
+// Retry policy for upstream calls: exponential backoff with jitter, honoring Retry-After and SP-API rate-limit headers
+import { createLogger } from './logger.js';
+
+const log = createLogger('RETRY');
+
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Per-operation max retries; an entry also enables retries for non-idempotent methods
+  operationOverrides: Map<string, number>;
+}
+
+// Carried on the axios request config so the response interceptor can track attempts
+export interface RetryState {
+  operationId?: string;
+  attempt: number;
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'EPIPE'];
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && process.env[name] !== '' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// SCANPOWER_RETRY_OPERATIONS="listInboundPlans=5,createInboundPlan=2,deleteBatches=0"
+function parseOperationOverrides(spec: string | undefined): Map<string, number> {
+  const overrides = new Map<string, number>();
+  for (const entry of (spec || '').split(',')) {
+    const [name, value] = entry.split('=').map((part) => part.trim());
+    if (!name) continue;
+    const retries = Number(value);
+    if (!Number.isFinite(retries) || retries < 0) {
+      log.warn(`Ignoring invalid SCANPOWER_RETRY_OPERATIONS entry: ${entry}`);
+      continue;
+    }
+    overrides.set(name, retries);
+  }
+  return overrides;
+}
+
+export function loadRetryConfig(): RetryConfig {
+  return {
+    maxRetries: envNumber('SCANPOWER_RETRY_MAX', 3),
+    baseDelayMs: envNumber('SCANPOWER_RETRY_BASE_MS', 500),
+    maxDelayMs: envNumber('SCANPOWER_RETRY_MAX_DELAY_MS', 20000),
+    operationOverrides: parseOperationOverrides(process.env.SCANPOWER_RETRY_OPERATIONS),
+  };
+}
+
+// Max retries for a request: per-operation override first, otherwise only idempotent methods retry
+export function maxRetriesFor(config: RetryConfig, method: string, operationId?: string): number {
+  if (operationId && config.operationOverrides.has(operationId)) {
+    return config.operationOverrides.get(operationId)!;
+  }
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase()) ? config.maxRetries : 0;
+}
+
+export function isRetryableError(error: any): boolean {
+  const status = error?.response?.status;
+  if (typeof status === 'number') {
+    return RETRYABLE_STATUSES.includes(status);
+  }
+  return RETRYABLE_ERROR_CODES.includes(error?.code);
+}
+
+function header(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name] ?? headers[name.toLowerCase()];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+// Delay requested by the server: Retry-After (seconds or HTTP date) or the SP-API per-second rate limit
+export function serverRequestedDelayMs(headers: any): number | undefined {
+  const retryAfter = header(headers, 'retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const rateLimit = Number(header(headers, 'x-amzn-ratelimit-limit'));
+  if (Number.isFinite(rateLimit) && rateLimit > 0) {
+    return Math.ceil(1000 / rateLimit);
+  }
+  return undefined;
+}
+
+/**
+ * Delay before the given retry (0-based), or null when the server asks for a
+ * longer wait than maxDelayMs and the error should be returned instead.
+ */
+export function retryDelayMs(config: RetryConfig, attempt: number, headers?: any): number | null {
+  // Full jitter: a random delay up to the exponential cap
+  const backoff = Math.random() * Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  const requested = serverRequestedDelayMs(headers);
+  if (requested === undefined) {
+    return Math.round(backoff);
+  }
+  if (requested > config.maxDelayMs) {
+    return null;
+  }
+  return Math.round(Math.max(requested, backoff));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
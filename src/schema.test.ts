@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildOutputSchema, resolveSchema } from './schema.js';
+
+const doc = {
+  components: {
+    schemas: {
+      Address: { type: 'object', required: ['name', 'countryCode'], properties: { name: { type: 'string' }, countryCode: { type: 'string', enum: ['US', 'CA'] } } },
+      Base: { type: 'object', required: ['name'], properties: { name: { type: 'string', description: 'Plan name' }, id: { type: 'string', readOnly: true } } },
+      Plan: {
+        allOf: [
+          { $ref: '#/components/schemas/Base' },
+          { type: 'object', required: ['sourceAddress'], properties: { sourceAddress: { $ref: '#/components/schemas/Address' } } },
+        ],
+      },
+      Node: { type: 'object', properties: { child: { $ref: '#/components/schemas/Node' } } },
+      ByAsin: { title: 'ByAsin', type: 'object', required: ['asin', 'marketplaceId'], properties: { asin: { type: 'string' }, marketplaceId: { type: 'string' } } },
+      BySku: { title: 'BySku', type: 'object', required: ['sku', 'marketplaceId'], properties: { sku: { type: 'string' }, marketplaceId: { type: 'string' } } },
+    },
+  },
+};
+
+describe('resolveSchema', () => {
+  it('inlines $refs and merges allOf', () => {
+    const plan = resolveSchema(doc, { $ref: '#/components/schemas/Plan' });
+    assert.equal(plan.type, 'object');
+    assert.deepEqual(plan.required, ['name', 'sourceAddress']);
+    assert.deepEqual(plan.properties.sourceAddress.properties.countryCode, { type: 'string', enum: ['US', 'CA'] });
+    assert.equal(plan.properties.name.description, 'Plan name');
+  });
+
+  it('drops readOnly properties from inputs but not outputs', () => {
+    assert.equal(resolveSchema(doc, { $ref: '#/components/schemas/Base' }).properties.id, undefined);
+    assert.deepEqual(resolveSchema(doc, { $ref: '#/components/schemas/Base' }, 'output').properties.id, { type: 'string' });
+  });
+
+  it('collapses object oneOf variants, requiring only common fields', () => {
+    const merged = resolveSchema(doc, { oneOf: [{ $ref: '#/components/schemas/ByAsin' }, { $ref: '#/components/schemas/BySku' }] });
+    assert.deepEqual(Object.keys(merged.properties).sort(), ['asin', 'marketplaceId', 'sku']);
+    assert.deepEqual(merged.required, ['marketplaceId']);
+    assert.match(merged.description, /One of: ByAsin, BySku/);
+    assert.deepEqual(resolveSchema(doc, { oneOf: [{ type: 'string' }, { type: 'integer' }] }), { anyOf: [{ type: 'string' }, { type: 'integer' }] });
+  });
+
+  it('cuts off recursive references and maps nullable', () => {
+    const node = resolveSchema(doc, { $ref: '#/components/schemas/Node' });
+    assert.match(node.properties.child.description, /^Recursive Node/);
+    assert.deepEqual(resolveSchema(doc, { type: 'string', nullable: true, example: 'x' }), { type: ['string', 'null'] });
+  });
+});
+
+describe('buildOutputSchema', () => {
+  const outputDoc = { openapi: '3.0.0', paths: {}, components: { schemas: { Plan: { type: 'object', required: ['name'], properties: { name: { type: 'string', enum: ['a'] } } } } } };
+  const operation = (schema: any) => ({ responses: { '200': { content: { 'application/json': { schema } } } } });
+
+  it('accepts null for nested values but keeps the top level an object', () => {
+    const output = buildOutputSchema(outputDoc, operation({ type: 'object', properties: { plan: { $ref: '#/components/schemas/Plan' } } }));
+    assert.equal(output?.wrapped, false);
+    assert.equal(output?.schema.type, 'object');
+    assert.deepEqual(output?.schema.properties.plan.type, ['object', 'null']);
+    assert.deepEqual(output?.schema.properties.plan.properties.name, { type: ['string', 'null'] });
+  });
+
+  it('wraps non-object results', () => {
+    const output = buildOutputSchema(outputDoc, operation({ type: 'array', items: { type: 'string' } }));
+    assert.equal(output?.wrapped, true);
+    assert.deepEqual(output?.schema.properties.result, { type: ['array', 'null'], items: { type: ['string', 'null'] } });
+  });
+
+  it('returns null without a JSON success response', () => {
+    assert.equal(buildOutputSchema(outputDoc, { responses: { '200': { content: { 'application/pdf': { schema: { type: 'string' } } } } } }), null);
+    assert.equal(buildOutputSchema(outputDoc, { responses: { '404': { content: { 'application/json': { schema: { type: 'object' } } } } } }), null);
+  });
+});
@@ -0,0 +1,229 @@
+// OpenAPI schema helpers: $ref resolution and conversion to plain JSON Schema for tool input/output schemas
+
+export type SchemaDirection = 'input' | 'output';
+
+// OpenAPI-only keywords that are not part of JSON Schema
+const OPENAPI_ONLY_KEYWORDS = ['nullable', 'discriminator', 'xml', 'externalDocs', 'example', 'examples', 'readOnly', 'writeOnly', 'deprecated'];
+
+// Deeply nested or very large specs are cut off here rather than producing huge tool schemas
+const MAX_DEPTH = 12;
+
+export function resolveRef(doc: any, ref: string): any {
+  if (!ref.startsWith('#/')) return undefined;
+  let resolved = doc;
+  for (const raw of ref.slice(2).split('/')) {
+    const part = raw.replace(/~1/g, '/').replace(/~0/g, '~');
+    resolved = resolved?.[part];
+  }
+  return resolved;
+}
+
+// Follow $ref chains on a parameter, requestBody or response object (not a schema)
+export function derefObject(doc: any, obj: any): any {
+  let current = obj;
+  const seen = new Set<string>();
+  while (current && typeof current.$ref === 'string' && !seen.has(current.$ref)) {
+    seen.add(current.$ref);
+    current = resolveRef(doc, current.$ref) ?? current;
+    if (current === obj) break;
+  }
+  return current;
+}
+
+function refName(ref: string): string {
+  return ref.split('/').pop() || ref;
+}
+
+function isObjectSchema(schema: any): boolean {
+  return !!schema && (schema.type === 'object' || (!schema.type && !!schema.properties));
+}
+
+function uniq<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+// Merge two already-resolved schemas as allOf would (properties and required are unioned)
+export function mergeSchemas(a: any, b: any): any {
+  if (!a) return b;
+  if (!b) return a;
+  const merged: any = { ...a, ...b };
+  if (a.description && b.description && a.description !== b.description) {
+    merged.description = a.description;
+  }
+  if (a.properties || b.properties) {
+    merged.properties = { ...(a.properties || {}) };
+    for (const [key, value] of Object.entries<any>(b.properties || {})) {
+      merged.properties[key] = merged.properties[key] ? mergeSchemas(merged.properties[key], value) : value;
+    }
+  }
+  if (a.required || b.required) {
+    merged.required = uniq([...(a.required || []), ...(b.required || [])]);
+  }
+  if (!merged.type && (merged.properties || merged.required)) {
+    merged.type = 'object';
+  }
+  return merged;
+}
+
+// Collapse oneOf/anyOf: object variants become one object accepting any variant's properties
+function mergeAlternatives(variants: any[], description?: string): any {
+  if (variants.length === 1) return variants[0];
+  if (variants.length > 0 && variants.every(isObjectSchema)) {
+    const properties: Record<string, any> = {};
+    for (const v of variants) {
+      for (const [key, value] of Object.entries<any>(v.properties || {})) {
+        properties[key] = properties[key] ? mergeSchemas(properties[key], value) : value;
+      }
+    }
+    // Only fields required by every variant are required overall
+    const required = variants
+      .map((v) => v.required || [])
+      .reduce((acc: string[], req: string[]) => acc.filter((r) => req.includes(r)));
+    const variantNames = variants.map((v, i) => v.title || `variant ${i + 1}`).join(', ');
+    const merged: any = {
+      type: 'object',
+      properties,
+      description: [description, `One of: ${variantNames}.`].filter(Boolean).join(' '),
+    };
+    if (required.length) merged.required = required;
+    return merged;
+  }
+  return { anyOf: variants, ...(description ? { description } : {}) };
+}
+
+function applyNullable(schema: any): any {
+  if (schema.type && !Array.isArray(schema.type)) {
+    return { ...schema, type: [schema.type, 'null'] };
+  }
+  if (Array.isArray(schema.type) && !schema.type.includes('null')) {
+    return { ...schema, type: [...schema.type, 'null'] };
+  }
+  return schema;
+}
+
+/**
+ * Resolve an OpenAPI schema into self-contained JSON Schema: $refs are inlined
+ * recursively (cycles are cut off), allOf is merged, oneOf/anyOf are collapsed
+ * and OpenAPI-only keywords are removed. Properties that are readOnly (input)
+ * or writeOnly (output) are dropped for the given direction.
+ */
+export function resolveSchema(doc: any, schema: any, direction: SchemaDirection = 'input', stack: string[] = []): any {
+  if (!schema || typeof schema !== 'object') return {};
+  if (Array.isArray(schema)) return {};
+
+  if (typeof schema.$ref === 'string') {
+    const ref = schema.$ref;
+    if (stack.includes(ref) || stack.length >= MAX_DEPTH) {
+      return { type: 'object', description: `Recursive ${refName(ref)} (see the OpenAPI spec for its full shape)` };
+    }
+    const target = resolveRef(doc, ref);
+    if (!target) return {};
+    const { $ref: _ref, ...siblings } = schema;
+    const resolved = resolveSchema(doc, target, direction, [...stack, ref]);
+    return Object.keys(siblings).length ? { ...resolved, ...resolveSchema(doc, siblings, direction, stack) } : resolved;
+  }
+
+  const { allOf, oneOf, anyOf, properties, items, additionalProperties, not: _not, ...rest } = schema;
+  let out: any = {};
+  for (const [key, value] of Object.entries(rest)) {
+    if (!OPENAPI_ONLY_KEYWORDS.includes(key)) out[key] = value;
+  }
+
+  if (properties && typeof properties === 'object') {
+    out.properties = {};
+    for (const [key, value] of Object.entries<any>(properties)) {
+      const prop = value?.$ref ? resolveRef(doc, value.$ref) ?? value : value;
+      if (direction === 'input' && prop?.readOnly) continue;
+      if (direction === 'output' && prop?.writeOnly) continue;
+      out.properties[key] = resolveSchema(doc, value, direction, stack);
+    }
+    if (Array.isArray(out.required)) {
+      out.required = out.required.filter((r: string) => r in out.properties);
+      if (out.required.length === 0) delete out.required;
+    }
+  }
+  if (items) {
+    out.items = resolveSchema(doc, items, direction, stack);
+  }
+  if (additionalProperties !== undefined) {
+    out.additionalProperties = typeof additionalProperties === 'object'
+      ? resolveSchema(doc, additionalProperties, direction, stack)
+      : additionalProperties;
+  }
+
+  if (Array.isArray(allOf)) {
+    for (const part of allOf) {
+      out = mergeSchemas(out, resolveSchema(doc, part, direction, stack));
+    }
+  }
+  const alternatives = Array.isArray(oneOf) ? oneOf : Array.isArray(anyOf) ? anyOf : null;
+  if (alternatives) {
+    const merged = mergeAlternatives(
+      alternatives.map((v: any) => resolveSchema(doc, v, direction, stack)),
+      out.description,
+    );
+    out = Object.keys(out).length ? mergeSchemas(out, merged) : merged;
+  }
+
+  if (!out.type && (out.properties || out.required)) {
+    out.type = 'object';
+  }
+  if (schema.nullable === true) {
+    out = applyNullable(out);
+  }
+  return out;
+}
+
+// Formats the SDK's validator knows; others (int64, double, ...) would fail schema compilation
+const STANDARD_FORMATS = ['date-time', 'date', 'time', 'email', 'uri', 'uuid', 'ipv4', 'ipv6', 'hostname'];
+// Value constraints real responses don't always honor
+const OUTPUT_CONSTRAINTS = ['required', 'enum', 'const', 'pattern', 'minLength', 'maxLength', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf', 'minItems', 'maxItems', 'uniqueItems', 'minProperties', 'maxProperties'];
+
+/**
+ * Loosen a resolved schema for describing responses: clients validate
+ * structured content against it, and responses may be projected, truncated or
+ * simply not match the spec exactly. Only the shape and types are kept, and
+ * every nested value may also be null: upstream payloads return null for
+ * fields the spec doesn't mark nullable, which would fail a good call.
+ */
+export function relaxSchema(schema: any, nested: boolean = false): any {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return schema;
+  const out: any = {};
+  for (const [key, value] of Object.entries<any>(schema)) {
+    if (OUTPUT_CONSTRAINTS.includes(key)) continue;
+    if (key === 'format' && !STANDARD_FORMATS.includes(value)) continue;
+    if (key === 'additionalProperties' && value === false) continue;
+    if (key === 'properties') {
+      out.properties = Object.fromEntries(Object.entries<any>(value).map(([name, prop]) => [name, relaxSchema(prop, true)]));
+    } else if (key === 'items' || key === 'additionalProperties') {
+      out[key] = relaxSchema(value, true);
+    } else if (key === 'anyOf' && Array.isArray(value)) {
+      out.anyOf = value.map((variant) => relaxSchema(variant, true));
+    } else {
+      out[key] = value;
+    }
+  }
+  return nested ? applyNullable(out) : out;
+}
+
+/**
+ * Output schema for a tool from the operation's first 2xx JSON response.
+ * MCP output schemas must describe an object, so any other result is wrapped
+ * as { result } (wrapped: true). Returns null when there is no JSON response schema.
+ */
+export function buildOutputSchema(doc: any, operation: any): { schema: any; wrapped: boolean } | null {
+  const responses = operation?.responses || {};
+  const status = ['200', '201', '202', '203', '206', '2XX', '2xx', ...Object.keys(responses).filter((s) => /^2\d\d$/.test(s))]
+    .find((s) => responses[s]);
+  if (!status) return null;
+  const content = derefObject(doc, responses[status])?.content || {};
+  const mediaType = Object.keys(content).find((ct) => /json/i.test(ct));
+  if (!mediaType || !content[mediaType]?.schema) return null;
+
+  const resolved = resolveSchema(doc, content[mediaType].schema, 'output');
+  if (Object.keys(resolved).length === 0) return null;
+  if (resolved.type === 'object') {
+    return { schema: relaxSchema(resolved), wrapped: false };
+  }
+  return { schema: { type: 'object', properties: { result: relaxSchema(resolved, true) } }, wrapped: true };
+}
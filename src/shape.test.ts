@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseFields, projectFields, shapeResponse } from './shape.js';
+
+describe('response shaping', () => {
+  const data = { items: Array.from({ length: 50 }, (_, i) => ({ sku: `SKU-${i}`, title: 'x'.repeat(40), qty: i })), nextToken: 't' };
+
+  it('parses dotted and JSONPath fields and projects them', () => {
+    assert.deepEqual(parseFields('$.items[*].sku, nextToken'), [['items', 'sku'], ['nextToken']]);
+    assert.deepEqual(parseFields(["$['items'][*]['qty']"]), [['items', 'qty']]);
+    assert.equal(parseFields(''), undefined);
+    assert.deepEqual(projectFields({ items: [{ sku: 'a', qty: 1 }], other: 1 }, [['items', 'sku']]), { items: [{ sku: 'a' }] });
+  });
+
+  it('limits items and says how many were left out', () => {
+    const shaped = shapeResponse(data, { limit: 5, maxBytes: 0 });
+    assert.equal(shaped.value.items.length, 5);
+    assert.match(shaped.notice || '', /Showing 5 of 50 items in "items"/);
+  });
+
+  it('drops items to fit the byte cap and keeps the text valid JSON', () => {
+    const shaped = shapeResponse(data, { maxBytes: 1000 });
+    assert.ok(Buffer.byteLength(shaped.text, 'utf8') <= 1000);
+    assert.deepEqual(JSON.parse(shaped.text), shaped.value);
+    assert.ok(shaped.value.items.length > 0 && shaped.value.items.length < 50);
+    assert.match(shaped.notice || '', /\[TRUNCATED\]/);
+  });
+
+  it('cuts responses without a list at the cap', () => {
+    const shaped = shapeResponse({ text: 'y'.repeat(5000) }, { maxBytes: 200 });
+    assert.equal(shaped.value, undefined);
+    assert.match(shaped.text, /TRUNCATED: \d+ of \d+ bytes omitted/);
+  });
+});
@@ -0,0 +1,150 @@
+// Response shaping: field projection, item limits and a size cap so large payloads don't flood the client context
+import { findItemsPath } from './paginate.js';
+
+export interface ShapeOptions {
+  fields?: string[][]; // parsed projection paths
+  limit?: number; // max items in the response's main list
+  maxBytes: number; // 0 disables the size cap
+  // How to get the omitted part, e.g. which pagination argument to use
+  hint?: string;
+}
+
+export interface ShapedResponse {
+  text: string;
+  // The shaped data behind text; undefined when the text had to be cut mid-JSON
+  value?: any;
+  // Set when anything was left out
+  notice?: string;
+}
+
+export function maxResponseBytes(): number {
+  const value = Number(process.env.SCANPOWER_MAX_RESPONSE_BYTES);
+  return process.env.SCANPOWER_MAX_RESPONSE_BYTES && Number.isFinite(value) && value >= 0 ? Math.floor(value) : 100000;
+}
+
+/**
+ * Parse `fields` into paths. Accepts an array or a comma-separated string of
+ * dotted paths (`items.sku`) or simple JSONPath (`$.items[*].sku`,
+ * `$['items'][*]['sku']`). Arrays are traversed implicitly, so `[*]` is optional.
+ */
+export function parseFields(value: unknown): string[][] | undefined {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const paths = list
+    .map((field) => String(field).trim())
+    .filter(Boolean)
+    .map((field) =>
+      field
+        .replace(/^\$\.?/, '')
+        .replace(/\[\s*['"]([^'"]+)['"]\s*\]/g, '.$1')
+        .replace(/\[\s*\*?\s*\]/g, '')
+        .split('.')
+        .filter(Boolean)
+    )
+    .filter((path) => path.length > 0);
+  return paths.length > 0 ? paths : undefined;
+}
+
+interface FieldTree {
+  [key: string]: FieldTree;
+}
+
+function buildTree(paths: string[][]): FieldTree {
+  const root: FieldTree = {};
+  for (const path of paths) {
+    let node = root;
+    for (const segment of path) {
+      node = node[segment] ??= {};
+    }
+  }
+  return root;
+}
+
+function applyTree(value: any, tree: FieldTree): any {
+  if (Array.isArray(value)) return value.map((v) => applyTree(v, tree));
+  if (!value || typeof value !== 'object') return value;
+  const out: Record<string, any> = {};
+  for (const [key, sub] of Object.entries(tree)) {
+    if (!(key in value)) continue;
+    // A leaf keeps the whole value; an inner node keeps only its selected children
+    out[key] = Object.keys(sub).length === 0 ? value[key] : applyTree(value[key], sub);
+  }
+  return out;
+}
+
+export function projectFields(value: any, paths: string[][]): any {
+  return applyTree(value, buildTree(paths));
+}
+
+function withItems(value: any, path: string[], items: any[]): any {
+  if (path.length === 0) return items;
+  const [head, ...rest] = path;
+  return { ...value, [head]: withItems(value[head], rest, items) };
+}
+
+function itemsAt(value: any, path: string[]): any[] {
+  return path.reduce((v, key) => v?.[key], value);
+}
+
+function render(value: any): string {
+  return JSON.stringify(value, null, 2) ?? 'null';
+}
+
+/**
+ * Project, limit and size-cap a response body. When the rendered JSON is over
+ * maxBytes, items are dropped from the end of the main list until it fits, so
+ * the text stays valid JSON; without a list the text is cut at the limit.
+ */
+export function shapeResponse(data: any, options: ShapeOptions): ShapedResponse {
+  let value = options.fields ? projectFields(data, options.fields) : data;
+  const notes: string[] = [];
+
+  const itemsPath = findItemsPath(value);
+  const total = itemsPath ? itemsAt(value, itemsPath).length : 0;
+  let kept = total;
+  if (itemsPath && options.limit !== undefined && options.limit < total) {
+    kept = options.limit;
+    value = withItems(value, itemsPath, itemsAt(value, itemsPath).slice(0, kept));
+  }
+
+  const limited = kept;
+  let text = render(value);
+  const fits = (t: string) => options.maxBytes === 0 || Buffer.byteLength(t, 'utf8') <= options.maxBytes;
+  if (!fits(text) && itemsPath && kept > 0) {
+    // Largest item count that fits
+    const all = itemsAt(value, itemsPath);
+    let low = 0;
+    let high = kept - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (fits(render(withItems(value, itemsPath, all.slice(0, mid))))) low = mid;
+      else high = mid - 1;
+    }
+    kept = low;
+    value = withItems(value, itemsPath, all.slice(0, kept));
+    text = render(value);
+  }
+  if (kept < total) {
+    const list = itemsPath && itemsPath.length > 0 ? `"${itemsPath.join('.')}"` : 'the response';
+    notes.push(kept < limited
+      ? `[TRUNCATED] Response exceeded ${options.maxBytes} bytes: showing ${kept} of ${total} items in ${list}; ${total - kept} omitted.`
+      : `Showing ${kept} of ${total} items in ${list} (limit ${options.limit}); ${total - kept} omitted.`);
+  }
+
+  let cut = false;
+  if (!fits(text)) {
+    cut = true;
+    const fullBytes = Buffer.byteLength(text, 'utf8');
+    text = Buffer.from(text, 'utf8').subarray(0, options.maxBytes).toString('utf8').replace(/�$/, '');
+    text += `\n... [TRUNCATED: ${fullBytes - Buffer.byteLength(text, 'utf8')} of ${fullBytes} bytes omitted]`;
+    notes.push(`[TRUNCATED] Response exceeded ${options.maxBytes} bytes and was cut off; the text above is not valid JSON.`);
+  }
+
+  const shaped: ShapedResponse = { text, value: cut ? undefined : value };
+  if (notes.length === 0) {
+    return shaped;
+  }
+  if (options.hint) {
+    notes.push(options.hint);
+  }
+  return { ...shaped, notice: notes.join('\n') };
+}
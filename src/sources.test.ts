@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, afterEach, describe, it } from 'node:test';
+import { loadSpecSources, sourceAuthHeaders, sourceBasicAuth } from './sources.js';
+
+describe('loadSpecSources', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sources-test-'));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  afterEach(() => {
+    delete process.env.SCANPOWER_SPEC_SOURCES;
+    delete process.env.SCANPOWER_OPENAPI_SPEC;
+  });
+
+  it('defaults to the ScanPower API', () => {
+    process.env.SCANPOWER_OPENAPI_SPEC = 'https://example.com/spec.json';
+    const [source] = loadSpecSources();
+    assert.equal(source.name, 'scanpower');
+    assert.equal(source.spec, 'https://example.com/spec.json');
+    assert.deepEqual(source.auth, { type: 'scanpower' });
+    assert.equal(source.prefix, '');
+  });
+
+  it('reads a JSON array or a YAML file', () => {
+    process.env.SCANPOWER_SPEC_SOURCES = JSON.stringify([{ name: 'wh', spec: './wh.yaml', baseUrl: 'https://wh.example.com', prefix: 'wh.', auth: { type: 'header', header: 'X-Warehouse-Key', valueEnv: 'WH_KEY' } }]);
+    assert.deepEqual(loadSpecSources(), [{ name: 'wh', spec: './wh.yaml', snapshot: undefined, baseUrl: 'https://wh.example.com', prefix: 'wh.', auth: { type: 'header', header: 'X-Warehouse-Key', valueEnv: 'WH_KEY' } }]);
+
+    const file = path.join(dir, 'sources.yaml');
+    fs.writeFileSync(file, '- name: scanpower\n  spec: https://example.com/spec.json\n- name: ops\n  snapshot: ./ops.json\n  baseUrl: https://ops.example.com\n  auth: none\n');
+    process.env.SCANPOWER_SPEC_SOURCES = file;
+    const sources = loadSpecSources();
+    assert.deepEqual(sources.map((source) => [source.name, source.auth.type]), [['scanpower', 'scanpower'], ['ops', 'none']]);
+  });
+
+  it('rejects invalid configuration', () => {
+    const invalid = (value: any, message: RegExp) => {
+      process.env.SCANPOWER_SPEC_SOURCES = JSON.stringify(value);
+      assert.throws(() => loadSpecSources(), message);
+    };
+    invalid([], /non-empty array/);
+    invalid([{ name: 'a b', spec: 'x' }], /may only contain letters/);
+    invalid([{ name: 'a' }], /needs a spec or a snapshot/);
+    invalid([{ name: 'a', spec: 'x' }, { name: 'a', spec: 'y' }], /more than one source named "a"/);
+    invalid([{ name: 'a', spec: 'x', auth: { type: 'bearer' } }], /auth\.tokenEnv must be a non-empty string/);
+    invalid([{ name: 'a', spec: 'x', auth: 'oauth' }], /auth\.type must be one of/);
+    process.env.SCANPOWER_SPEC_SOURCES = path.join(dir, 'missing.yaml');
+    assert.throws(() => loadSpecSources(), /Could not read SCANPOWER_SPEC_SOURCES/);
+  });
+});
+
+describe('source credentials', () => {
+  it('reads credentials from the named environment variables at call time', () => {
+    const source = { name: 'ops', baseUrl: 'https://ops.example.com', prefix: '', auth: { type: 'bearer' as const, tokenEnv: 'OPS_TOKEN' } };
+    assert.throws(() => sourceAuthHeaders(source), /OPS_TOKEN is not set \(credentials for spec source "ops"\)/);
+    process.env.OPS_TOKEN = 't1';
+    assert.deepEqual(sourceAuthHeaders(source), { Authorization: 'Bearer t1' });
+    delete process.env.OPS_TOKEN;
+
+    process.env.OPS_USER = 'u';
+    process.env.OPS_PASS = 'p';
+    assert.deepEqual(sourceBasicAuth({ ...source, auth: { type: 'basic', usernameEnv: 'OPS_USER', passwordEnv: 'OPS_PASS' } }), { username: 'u', password: 'p' });
+    assert.equal(sourceBasicAuth(source), undefined);
+    delete process.env.OPS_USER;
+    delete process.env.OPS_PASS;
+  });
+});
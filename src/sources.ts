@@ -0,0 +1,152 @@
+// Spec sources: the OpenAPI documents tools are generated from, each with its own base URL, auth and tool-name prefix
+import fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { BUNDLED_SPEC_PATH, resolveSpecPath } from './spec.js';
+
+/**
+ * How requests to a source are authenticated. `scanpower` is the built-in
+ * behaviour: managed bearer and Amazon tokens, X-Proxy and the spec's security
+ * schemes. The others read their credentials from environment variables, so
+ * the sources file never holds secrets.
+ */
+export type SourceAuth =
+  | { type: 'scanpower' }
+  | { type: 'none' }
+  | { type: 'bearer'; tokenEnv: string }
+  | { type: 'header'; header: string; valueEnv: string }
+  | { type: 'basic'; usernameEnv: string; passwordEnv: string };
+
+export interface SpecSource {
+  name: string;
+  spec?: string; // URL, file:// URL or local path; reloaded on the reload schedule
+  snapshot?: string; // local file used when `spec` can't be loaded at startup
+  baseUrl: string;
+  prefix: string; // prepended to every operationId of the source to form the tool name
+  auth: SourceAuth;
+}
+
+// A source with the spec document currently loaded for it
+export interface LoadedSpecSource {
+  source: SpecSource;
+  doc: any;
+}
+
+const NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+const PREFIX_PATTERN = /^[A-Za-z0-9_.-]*$/;
+const DEFAULT_BASE_URL = 'https://api.scanpower.com';
+
+// The single ScanPower source configured by SCANPOWER_OPENAPI_SPEC and SCANPOWER_BASE_URL
+function defaultSource(): SpecSource {
+  return {
+    name: 'scanpower',
+    spec: process.env.SCANPOWER_OPENAPI_SPEC?.trim() || undefined,
+    snapshot: process.env.SCANPOWER_OPENAPI_SNAPSHOT || BUNDLED_SPEC_PATH,
+    baseUrl: process.env.SCANPOWER_BASE_URL || DEFAULT_BASE_URL,
+    prefix: '',
+    auth: { type: 'scanpower' },
+  };
+}
+
+function requireString(value: any, what: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${what} must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+function parseAuth(raw: any, where: string): SourceAuth {
+  if (raw === undefined) return { type: 'scanpower' };
+  const type = typeof raw === 'string' ? raw : raw?.type;
+  switch (type) {
+    case 'scanpower':
+    case 'none':
+      return { type };
+    case 'bearer':
+      return { type, tokenEnv: requireString(raw.tokenEnv, `${where}.auth.tokenEnv`) };
+    case 'header':
+      return { type, header: requireString(raw.header, `${where}.auth.header`), valueEnv: requireString(raw.valueEnv, `${where}.auth.valueEnv`) };
+    case 'basic':
+      return { type, usernameEnv: requireString(raw.usernameEnv, `${where}.auth.usernameEnv`), passwordEnv: requireString(raw.passwordEnv, `${where}.auth.passwordEnv`) };
+    default:
+      throw new Error(`${where}.auth.type must be one of scanpower, none, bearer, header, basic (got ${JSON.stringify(type)})`);
+  }
+}
+
+function parseSource(raw: any, index: number): SpecSource {
+  const where = `SCANPOWER_SPEC_SOURCES[${index}]`;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`${where} must be an object`);
+  }
+  const name = requireString(raw.name, `${where}.name`);
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error(`${where}.name "${name}" may only contain letters, digits, "_" and "-"`);
+  }
+  const prefix = raw.prefix === undefined ? '' : String(raw.prefix);
+  if (!PREFIX_PATTERN.test(prefix)) {
+    throw new Error(`${where}.prefix "${prefix}" may only contain letters, digits, "_", "." and "-"`);
+  }
+  const spec = raw.spec === undefined ? undefined : requireString(raw.spec, `${where}.spec`);
+  const snapshot = raw.snapshot === undefined ? undefined : requireString(raw.snapshot, `${where}.snapshot`);
+  if (!spec && !snapshot) {
+    throw new Error(`${where} needs a spec or a snapshot`);
+  }
+  return {
+    name,
+    spec,
+    snapshot,
+    baseUrl: raw.baseUrl === undefined ? process.env.SCANPOWER_BASE_URL || DEFAULT_BASE_URL : requireString(raw.baseUrl, `${where}.baseUrl`),
+    prefix,
+    auth: parseAuth(raw.auth, where),
+  };
+}
+
+/**
+ * Sources from SCANPOWER_SPEC_SOURCES: a JSON array, or the path of a JSON or
+ * YAML file holding one. Without it there is one source, the ScanPower API.
+ * Invalid configuration fails startup rather than silently dropping tools.
+ */
+export function loadSpecSources(): SpecSource[] {
+  const value = process.env.SCANPOWER_SPEC_SOURCES?.trim();
+  if (!value) return [defaultSource()];
+
+  let raw: any;
+  try {
+    raw = value.startsWith('[') ? JSON.parse(value) : parseYaml(fs.readFileSync(resolveSpecPath(value), 'utf8'));
+  } catch (e) {
+    throw new Error(`Could not read SCANPOWER_SPEC_SOURCES: ${e instanceof Error ? e.message : e}`);
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error('SCANPOWER_SPEC_SOURCES must be a non-empty array of sources');
+  }
+  const sources = raw.map(parseSource);
+  const seen = new Set<string>();
+  for (const source of sources) {
+    if (seen.has(source.name)) {
+      throw new Error(`SCANPOWER_SPEC_SOURCES has more than one source named "${source.name}"`);
+    }
+    seen.add(source.name);
+  }
+  return sources;
+}
+
+function envValue(name: string, source: SpecSource): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set (credentials for spec source "${source.name}")`);
+  }
+  return value;
+}
+
+// Headers for bearer and header auth, read at call time so rotated credentials apply without a restart
+export function sourceAuthHeaders(source: SpecSource): Record<string, string> {
+  const auth = source.auth;
+  if (auth.type === 'bearer') return { Authorization: `Bearer ${envValue(auth.tokenEnv, source)}` };
+  if (auth.type === 'header') return { [auth.header]: envValue(auth.valueEnv, source) };
+  return {};
+}
+
+export function sourceBasicAuth(source: SpecSource): { username: string; password: string } | undefined {
+  const auth = source.auth;
+  if (auth.type !== 'basic') return undefined;
+  return { username: envValue(auth.usernameEnv, source), password: envValue(auth.passwordEnv, source) };
+}
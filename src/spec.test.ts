@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { after, describe, it } from 'node:test';
+import { loadSpec, parseSpecText, resolveSpecPath } from './spec.js';
+
+describe('parseSpecText', () => {
+  it('leaves valid JSON untouched, including ", ]" inside strings', () => {
+    assert.equal(parseSpecText('{"description": "Accepts SKU, ASIN, ]"}').description, 'Accepts SKU, ASIN, ]');
+  });
+
+  it('repairs trailing commas and reads YAML', () => {
+    assert.deepEqual(parseSpecText('{"paths": {"a": [1, 2,],},}'), { paths: { a: [1, 2] } });
+    assert.deepEqual(parseSpecText('openapi: 3.0.0\npaths: {}\n', 'spec.yaml'), { openapi: '3.0.0', paths: {} });
+  });
+
+  it('rejects documents that are not objects', () => {
+    assert.throws(() => parseSpecText('just text'), /not an object/);
+  });
+});
+
+describe('loadSpec', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spec-test-'));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('reads local YAML files by path or file:// URL', async () => {
+    const file = path.join(dir, 'api.yaml');
+    fs.writeFileSync(file, 'openapi: 3.0.1\npaths:\n  /ping:\n    get:\n      operationId: ping\n');
+    assert.equal(resolveSpecPath(pathToFileURL(file).href), file);
+    assert.equal((await loadSpec(file)).paths['/ping'].get.operationId, 'ping');
+    assert.ok((await loadSpec(pathToFileURL(file).href)).paths['/ping']);
+  });
+
+  it('rejects documents without paths and blob URLs', async () => {
+    const file = path.join(dir, 'empty.json');
+    fs.writeFileSync(file, '{"openapi": "3.0.1"}');
+    await assert.rejects(loadSpec(file), /no "paths" object/);
+    await assert.rejects(loadSpec('blob:https://example.com/1'), /Blob URLs/);
+  });
+});
@@ -0,0 +1,153 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { getHttpsAgent } from './tls.js';
+
+// Pinned snapshot of the ScanPower bundled spec, created with `npm run spec:vendor` (not shipped in the repository)
+export const BUNDLED_SPEC_PATH = fileURLToPath(new URL('../spec/scanpower-api-bundled.json', import.meta.url));
+
+export function isRemoteSpecSource(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+export function isBlobSpecSource(source: string): boolean {
+  return /^blob:https?:\/\//i.test(source);
+}
+
+// Resolve a file path or file:// URL relative to the working directory
+export function resolveSpecPath(source: string): string {
+  if (/^file:\/\//i.test(source)) {
+    return fileURLToPath(source);
+  }
+  return path.resolve(process.cwd(), source);
+}
+
+/**
+ * Parse an OpenAPI document from raw text. YAML is used when the hint (file
+ * extension or content type) says so, or when the text is not valid JSON.
+ */
+export function parseSpecText(text: string, hint: string = ''): any {
+  const looksYaml = /\.ya?ml$/i.test(hint) || /yaml/i.test(hint);
+  if (!looksYaml) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      // try the repair below
+    }
+    try {
+      // Tolerate trailing commas, which the published bundle has contained before. Only
+      // applied to invalid JSON: the rewrite doesn't know about strings
+      return JSON.parse(text.replace(/,(\s*[}\]])/g, '$1'));
+    } catch {
+      // fall through to YAML, which is a superset of JSON
+    }
+  }
+  const doc = parseYaml(text);
+  if (!doc || typeof doc !== 'object') {
+    throw new Error('OpenAPI document is empty or not an object');
+  }
+  return doc;
+}
+
+// What identifies the version of a loaded spec, used to skip re-parsing an unchanged one
+export interface SpecVersion {
+  etag?: string;
+  lastModified?: string;
+  mtimeMs?: number;
+  hash: string;
+}
+
+export interface LoadedSpec {
+  doc: any | null; // null when the spec is unchanged since the previous version
+  version: SpecVersion;
+}
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// The version's ETag/Last-Modified are sent as If-None-Match/If-Modified-Since; a 304 means unchanged
+async function fetchSpecText(url: string, previous?: SpecVersion): Promise<{ text: string; hint: string; etag?: string; lastModified?: string } | null> {
+  const resp = await axios.get(url, {
+    timeout: 30000,
+    httpsAgent: getHttpsAgent(),
+    responseType: 'text',
+    headers: {
+      'Accept': 'application/json, application/yaml;q=0.9, text/yaml;q=0.9, */*;q=0.5',
+      'User-Agent': 'ScanPower-MCP-Server/1.0.0',
+      ...(previous?.etag ? { 'If-None-Match': previous.etag } : {}),
+      ...(previous?.lastModified ? { 'If-Modified-Since': previous.lastModified } : {}),
+    },
+    validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+  });
+  if (resp.status === 304) return null;
+  const header = (name: string) => (resp.headers[name] ? String(resp.headers[name]) : undefined);
+  return {
+    text: String(resp.data),
+    hint: `${header('content-type') || ''} ${new URL(url).pathname}`,
+    etag: header('etag'),
+    lastModified: header('last-modified'),
+  };
+}
+
+export async function fetchSpec(url: string): Promise<any> {
+  const fetched = await fetchSpecText(url);
+  return parseSpecText(fetched!.text, fetched!.hint);
+}
+
+export function readSpecFile(source: string): any {
+  const filePath = resolveSpecPath(source);
+  const text = fs.readFileSync(filePath, 'utf8');
+  return parseSpecText(text, filePath);
+}
+
+function rejectBlobSource(source: string): void {
+  if (isBlobSpecSource(source)) {
+    throw new Error('Blob URLs cannot be fetched via HTTP. Please provide a direct HTTP/HTTPS URL or a local file path.');
+  }
+}
+
+function checkPaths(doc: any, source: string): any {
+  if (!doc.paths || typeof doc.paths !== 'object') {
+    throw new Error(`OpenAPI document from ${source} has no "paths" object`);
+  }
+  return doc;
+}
+
+// Load a spec from an http(s) URL, a file:// URL or a local JSON/YAML path
+export async function loadSpec(source: string): Promise<any> {
+  rejectBlobSource(source);
+  const doc = isRemoteSpecSource(source) ? await fetchSpec(source) : readSpecFile(source);
+  return checkPaths(doc, source);
+}
+
+/**
+ * Like loadSpec, but returns a null doc when the spec has not changed since
+ * `previous`: the server answered 304, the file's mtime is the same, or the
+ * content hashes the same (for servers without ETag/Last-Modified).
+ */
+export async function loadSpecIfChanged(source: string, previous?: SpecVersion): Promise<LoadedSpec> {
+  rejectBlobSource(source);
+  let text: string;
+  let hint: string;
+  let version: Omit<SpecVersion, 'hash'>;
+  if (isRemoteSpecSource(source)) {
+    const fetched = await fetchSpecText(source, previous);
+    if (!fetched) return { doc: null, version: previous! };
+    ({ text, hint } = fetched);
+    version = { etag: fetched.etag, lastModified: fetched.lastModified };
+  } else {
+    const filePath = resolveSpecPath(source);
+    const { mtimeMs } = fs.statSync(filePath);
+    if (previous?.mtimeMs === mtimeMs) return { doc: null, version: previous };
+    text = fs.readFileSync(filePath, 'utf8');
+    hint = filePath;
+    version = { mtimeMs };
+  }
+  const hash = hashText(text);
+  if (previous?.hash === hash) return { doc: null, version: { ...version, hash } };
+  return { doc: checkPaths(parseSpecText(text, hint), source), version: { ...version, hash } };
+}
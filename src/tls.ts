@@ -0,0 +1,57 @@
+import https from 'https';
+import tls from 'tls';
+import fs from 'fs';
+import { createLogger } from './logger.js';
+
+const log = createLogger('TLS');
+
+let sharedAgent: https.Agent | null = null;
+
+function readPem(envName: string): Buffer | undefined {
+  const filePath = process.env[envName];
+  if (!filePath) return undefined;
+  try {
+    return fs.readFileSync(filePath);
+  } catch (error) {
+    throw new Error(`${envName}: cannot read ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * HTTPS agent shared by the API client and the spec fetch. Certificates are
+ * verified against Node's root store plus SCANPOWER_CA_BUNDLE; a client
+ * certificate/key pair enables mTLS. SCANPOWER_TLS_INSECURE=true disables
+ * verification and is meant only for local self-signed stand-ins.
+ */
+export function getHttpsAgent(): https.Agent {
+  if (sharedAgent) return sharedAgent;
+
+  const insecure = process.env.SCANPOWER_TLS_INSECURE === 'true';
+  const extraCa = readPem('SCANPOWER_CA_BUNDLE');
+  const cert = readPem('SCANPOWER_CLIENT_CERT');
+  const key = readPem('SCANPOWER_CLIENT_KEY');
+  if (!!cert !== !!key) {
+    throw new Error('SCANPOWER_CLIENT_CERT and SCANPOWER_CLIENT_KEY must be set together');
+  }
+
+  if (insecure) {
+    log.warn('SCANPOWER_TLS_INSECURE=true - certificate verification is DISABLED.');
+    log.warn('Credentials and tokens can be intercepted. Use this only for local development.');
+  }
+  if (extraCa) {
+    log.info(`Trusting additional CA bundle: ${process.env.SCANPOWER_CA_BUNDLE}`);
+  }
+  if (cert) {
+    log.info(`Using client certificate: ${process.env.SCANPOWER_CLIENT_CERT}`);
+  }
+
+  sharedAgent = new https.Agent({
+    rejectUnauthorized: !insecure,
+    // Extend rather than replace the default roots so public endpoints keep working
+    ca: extraCa ? [...tls.rootCertificates, extraCa.toString('utf8')] : undefined,
+    cert,
+    key,
+    passphrase: process.env.SCANPOWER_CLIENT_KEY_PASSPHRASE || undefined,
+  });
+  return sharedAgent;
+}
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { globToRegExp, OperationInfo, ToolFilter } from './toolsets.js';
+
+function info(operationId: string, method: string = 'GET', extra: Partial<OperationInfo> = {}): OperationInfo {
+  return { operationId, toolName: operationId, source: 'scanpower', method, path: `/api/${operationId}`, tags: [], ...extra };
+}
+
+describe('ToolFilter', () => {
+  it('allows everything without rules', () => {
+    const filter = new ToolFilter([], [], []);
+    assert.equal(filter.allows(info('deleteBatches', 'DELETE')), true);
+    assert.equal(filter.description, 'all tools');
+  });
+
+  it('matches operation globs, tags, paths, methods and sources', () => {
+    const filter = new ToolFilter([], ['*InboundPlan*', 'tag:walmart*', 'path:/api/prep/', 'source:warehouse'], ['method:DELETE']);
+    assert.equal(filter.allows(info('listInboundPlans')), true);
+    assert.equal(filter.allows(info('selectBatches', 'GET', { tags: ['Walmart Batches'] })), true);
+    assert.equal(filter.allows(info('getMatrix', 'GET', { path: '/api/prep/matrix' })), true);
+    assert.equal(filter.allows(info('getBins', 'GET', { source: 'warehouse', toolName: 'wh.getBins' })), true);
+    assert.equal(filter.allows(info('cancelInboundPlan', 'DELETE')), false);
+    assert.equal(filter.allows(info('getLabels')), false);
+  });
+
+  it('matches prefixed tool names as well as operationIds', () => {
+    const filter = new ToolFilter([], ['wh.*'], []);
+    assert.equal(filter.allows(info('getBins', 'GET', { toolName: 'wh.getBins' })), true);
+  });
+
+  it('combines presets and narrows them with read-only', () => {
+    const filter = new ToolFilter(['amazon-inbound', 'read-only'], [], []);
+    assert.equal(filter.allows(info('listInboundPlans')), true);
+    assert.equal(filter.allows(info('getProxyUsers')), true);
+    assert.equal(filter.allows(info('createInboundPlan', 'POST')), false);
+    assert.equal(filter.allows(info('selectBatches')), false);
+    assert.equal(filter.description, 'presets=amazon-inbound+read-only');
+  });
+
+  it('rejects unknown presets', () => {
+    assert.throws(() => new ToolFilter(['readonly'], [], []), /Unknown toolset preset "readonly"/);
+  });
+
+  it('reads the rules from the environment', () => {
+    process.env.SCANPOWER_TOOLSETS = 'walmart';
+    process.env.SCANPOWER_TOOLS_EXCLUDE = 'deleteBatches, deleteBatchItems';
+    const filter = ToolFilter.fromEnv();
+    delete process.env.SCANPOWER_TOOLSETS;
+    delete process.env.SCANPOWER_TOOLS_EXCLUDE;
+    assert.equal(filter.allows(info('selectBatches')), true);
+    assert.equal(filter.allows(info('deleteBatches', 'POST')), false);
+  });
+});
+
+describe('globToRegExp', () => {
+  it('escapes everything but * and ?', () => {
+    assert.equal(globToRegExp('get?abel.*').test('getLabel.v2'), true);
+    assert.equal(globToRegExp('get?abel.*').test('getLabelsv2'), false);
+  });
+});
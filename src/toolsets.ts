@@ -0,0 +1,132 @@
+// Tool filtering: include/exclude rules and named presets selected per deployment
+
+export interface OperationInfo {
+  operationId: string;
+  toolName: string; // operationId with the source's prefix
+  source: string;
+  method: string; // upper case
+  path: string;
+  tags: string[];
+}
+
+interface Preset {
+  description: string;
+  include?: string[];
+  exclude?: string[];
+}
+
+// Token and user lookups every preset needs to be usable on its own
+const AUTH_OPERATIONS = ['getApiToken', 'getAccessToken', 'getUsers', 'getProxyUsers'];
+
+export const TOOLSET_PRESETS: Record<string, Preset> = {
+  'amazon-inbound': {
+    description: 'Amazon FBA inbound plans, packing, placement, transportation, shipments and labels',
+    include: [
+      ...AUTH_OPERATIONS,
+      '*InboundPlan*', '*PackingOption*', '*PackingGroup*', 'setPackingInformation', '*PlacementOption*',
+      '*TransportationOption*', 'getShipment', 'listShipment*', 'updateShipmentName', 'updateShipmentSourceAddress',
+      'updateShipmentTrackingDetails', '*ShipmentContentUpdatePreview*',
+      '*DeliveryWindowOption*', '*DeliveryChallanDocument', '*SelfShipAppointment*', '*ItemComplianceDetails',
+      'createMarketplaceItemLabels', '*PrepDetails', 'getInboundOperationStatus', 'getBillOfLading', 'getLabels',
+    ],
+  },
+  walmart: {
+    description: 'Walmart items, feeds, batches, inbound shipments, boxes and carrier labels',
+    include: [
+      ...AUTH_OPERATIONS,
+      'getWmAccessToken', 'itemSetupByMatch', 'bulkInventoryUpdate', 'allFeedStatuses', 'retireAnItem', 'itemLabel',
+      'selectBatches', 'insertBatches', 'selectBatch', 'updateBatches', 'deleteBatches',
+      'selectBatchItems', 'insertBatchItems', 'updateBatchItems', 'updateBatchItem', 'deleteBatchItems',
+      '*InboundShipment*', 'fetchInboundPreview', 'updateShipmentQuantities', 'updateWmShipmentTrackingDetails',
+      '*CarrierRateQuote', '*WmShipment*', '*WmBox*', 'printCarrierLabel',
+    ],
+  },
+  'prep-billing': {
+    description: 'Prep matrices, prep matrix products, shipment charges and billing reports',
+    include: [...AUTH_OPERATIONS, '*PrepMatri*', 'prepCenterBillingReport*'],
+  },
+  'read-only': {
+    description: 'Only GET operations; combine with another preset to narrow it further',
+    exclude: ['method:POST', 'method:PUT', 'method:PATCH', 'method:DELETE'],
+  },
+};
+
+export function globToRegExp(glob: string, flags: string = ''): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, flags);
+}
+
+/**
+ * Compile one rule into a predicate. Rules are `op:<glob>` (the default when no
+ * prefix is given; matches the operationId or the prefixed tool name),
+ * `tag:<glob>`, `path:<prefix>`, `method:<METHOD>` and `source:<name>`.
+ */
+function compileRule(rule: string): (info: OperationInfo) => boolean {
+  const match = /^(op|tag|path|method|source):(.*)$/i.exec(rule);
+  const kind = match ? match[1].toLowerCase() : 'op';
+  const value = (match ? match[2] : rule).trim();
+  switch (kind) {
+    case 'tag': {
+      const re = globToRegExp(value, 'i');
+      return (info) => info.tags.some((t) => re.test(t));
+    }
+    case 'path':
+      return (info) => info.path.startsWith(value);
+    case 'method':
+      return (info) => info.method === value.toUpperCase();
+    case 'source':
+      return (info) => info.source === value;
+    default: {
+      const re = globToRegExp(value);
+      return (info) => re.test(info.operationId) || re.test(info.toolName);
+    }
+  }
+}
+
+function splitRules(value: string | undefined): string[] {
+  return (value || '').split(',').map((r) => r.trim()).filter(Boolean);
+}
+
+export class ToolFilter {
+  private includes: Array<(info: OperationInfo) => boolean>;
+  private excludes: Array<(info: OperationInfo) => boolean>;
+  readonly description: string;
+
+  constructor(presetNames: string[], includeRules: string[], excludeRules: string[]) {
+    const include = [...includeRules];
+    const exclude = [...excludeRules];
+    for (const name of presetNames) {
+      const preset = TOOLSET_PRESETS[name];
+      if (!preset) {
+        // Fail loudly: a mistyped "read-only" must not silently expose every tool
+        throw new Error(`Unknown toolset preset "${name}". Available presets: ${Object.keys(TOOLSET_PRESETS).join(', ')}`);
+      }
+      include.push(...(preset.include || []));
+      exclude.push(...(preset.exclude || []));
+    }
+    this.includes = include.map(compileRule);
+    this.excludes = exclude.map(compileRule);
+    this.description = [
+      presetNames.length ? `presets=${presetNames.join('+')}` : '',
+      includeRules.length ? `include=${includeRules.join(',')}` : '',
+      excludeRules.length ? `exclude=${excludeRules.join(',')}` : '',
+    ].filter(Boolean).join(' ') || 'all tools';
+  }
+
+  // From SCANPOWER_TOOLSETS, SCANPOWER_TOOLS_INCLUDE and SCANPOWER_TOOLS_EXCLUDE
+  static fromEnv(): ToolFilter {
+    return new ToolFilter(
+      splitRules(process.env.SCANPOWER_TOOLSETS),
+      splitRules(process.env.SCANPOWER_TOOLS_INCLUDE),
+      splitRules(process.env.SCANPOWER_TOOLS_EXCLUDE),
+    );
+  }
+
+  // Included when there are no include rules or one matches, and no exclude rule matches
+  allows(info: OperationInfo): boolean {
+    if (this.includes.length > 0 && !this.includes.some((rule) => rule(info))) {
+      return false;
+    }
+    return !this.excludes.some((rule) => rule(info));
+  }
+}
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatValidationProblems, validateOperationArguments, validateValue } from './validate.js';
+
+describe('validateValue', () => {
+  const item = {
+    type: 'object',
+    required: ['msku', 'quantity'],
+    properties: {
+      msku: { type: 'string', minLength: 1 },
+      quantity: { type: 'integer', minimum: 1 },
+      labelOwner: { type: 'string', enum: ['AMAZON', 'SELLER'] },
+    },
+  };
+
+  it('accepts a valid value', () => {
+    assert.deepEqual(validateValue(item, { msku: 'A1', quantity: 2, labelOwner: 'SELLER' }), []);
+  });
+
+  it('reports missing, mistyped and out-of-range values with JSON pointers', () => {
+    const problems = validateValue({ type: 'array', items: item }, [{ quantity: 0, labelOwner: 'ME' }], '/body/items');
+    const pointers = problems.map((p) => p.pointer).sort();
+    assert.deepEqual(pointers, ['/body/items/0/labelOwner', '/body/items/0/msku', '/body/items/0/quantity']);
+  });
+
+  it('accepts a value matching any anyOf variant', () => {
+    const schema = { anyOf: [{ type: 'string' }, { type: 'object', properties: { path: { type: 'string' } } }] };
+    assert.deepEqual(validateValue(schema, { path: 'a.csv' }), []);
+    assert.equal(validateValue(schema, 5)[0]?.message, 'Value does not match any of the allowed shapes');
+  });
+});
+
+describe('validateOperationArguments', () => {
+  const item = { type: 'object', required: ['msku'], properties: { msku: { type: 'string' }, quantity: { type: 'integer' } } };
+
+  it('coerces string path/query values and accepts single values for arrays', () => {
+    const op = {
+      paramDefs: {
+        path: [{ name: 'inboundPlanId', schema: { type: 'string' } }],
+        query: [{ name: 'pageSize', schema: { type: 'integer' } }, { name: 'marketplaceIds', schema: { type: 'array', items: { type: 'string' } } }],
+      },
+    };
+    assert.deepEqual(validateOperationArguments(op, { inboundPlanId: 'p1', pageSize: '10', marketplaceIds: 'ATVPDKIKX0DER' }), []);
+    assert.equal(validateOperationArguments(op, { pageSize: 'ten' })[0]?.pointer, '/pageSize');
+  });
+
+  it('validates the body only when the operation has one', () => {
+    const op = { hasBody: true, bodySchema: item };
+    assert.equal(validateOperationArguments(op, { body: { msku: 'A1', quantity: 'x' } }).length, 1);
+    assert.deepEqual(validateOperationArguments({ ...op, hasBody: false }, { body: {} }), []);
+  });
+
+  it('says the request was not sent', () => {
+    const text = formatValidationProblems('createInboundPlan', [{ pointer: '/body/msku', message: 'Required property is missing' }]);
+    assert.match(text, /^Invalid arguments for createInboundPlan\. The request was not sent\./);
+    assert.match(text, /- \/body\/msku: Required property is missing/);
+  });
+});
@@ -0,0 +1,172 @@
+// Lightweight JSON Schema validation for tool arguments, run before any HTTP request is made
+
+export interface ValidationProblem {
+  pointer: string; // JSON pointer into the tool arguments, e.g. /body/items/0/quantity
+  message: string;
+  expected?: string | string[];
+}
+
+interface ValidateOptions {
+  // Path, query and header values are sent as strings, so "10" is accepted for integer params
+  coerceStrings?: boolean;
+}
+
+function escapePointer(segment: string | number): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: any, type: string, coerceStrings: boolean): boolean {
+  const actual = typeOf(value);
+  if (actual === type) return true;
+  if (type === 'number' && actual === 'integer') return true;
+  if (coerceStrings && actual === 'string') {
+    const s = String(value).trim();
+    if (type === 'integer') return /^-?\d+$/.test(s);
+    if (type === 'number') return s !== '' && !isNaN(Number(s));
+    if (type === 'boolean') return s === 'true' || s === 'false';
+  }
+  // Single values are accepted for array query params and sent as one element
+  if (coerceStrings && type === 'array' && actual !== 'object') return true;
+  return false;
+}
+
+export function validateValue(schema: any, value: any, pointer: string = '', options: ValidateOptions = {}): ValidationProblem[] {
+  const problems: ValidationProblem[] = [];
+  if (!schema || typeof schema !== 'object' || value === undefined) return problems;
+  const coerce = options.coerceStrings === true;
+  const at = pointer || '/';
+
+  if (Array.isArray(schema.anyOf) && schema.anyOf.length > 0) {
+    const matches = schema.anyOf.some((variant: any) => validateValue(variant, value, pointer, options).length === 0);
+    if (!matches) {
+      problems.push({
+        pointer: at,
+        message: 'Value does not match any of the allowed shapes',
+        expected: schema.anyOf.map((v: any) => (Array.isArray(v.type) ? v.type.join('|') : v.type) || 'schema'),
+      });
+    }
+    return problems;
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t, coerce))) {
+      problems.push({ pointer: at, message: `Expected ${types.join(' or ')}, got ${typeOf(value)}`, expected: types.length === 1 ? types[0] : types });
+      return problems;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    const allowed = schema.enum.map((e: any) => String(e));
+    const candidates = coerce && Array.isArray(value) ? value : [value];
+    for (const candidate of candidates) {
+      if (!schema.enum.includes(candidate) && !(coerce && allowed.includes(String(candidate)))) {
+        problems.push({ pointer: at, message: `Value ${JSON.stringify(candidate)} is not one of the allowed values`, expected: allowed });
+      }
+    }
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    problems.push({ pointer: at, message: `Expected constant ${JSON.stringify(schema.const)}`, expected: String(schema.const) });
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      problems.push({ pointer: at, message: `String is shorter than ${schema.minLength} characters`, expected: `minLength ${schema.minLength}` });
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      problems.push({ pointer: at, message: `String is longer than ${schema.maxLength} characters`, expected: `maxLength ${schema.maxLength}` });
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) {
+          problems.push({ pointer: at, message: `String does not match pattern ${schema.pattern}`, expected: `pattern ${schema.pattern}` });
+        }
+      } catch {
+        // ignore patterns that are not valid JavaScript regular expressions
+      }
+    }
+  }
+
+  const numeric = typeof value === 'number' ? value : coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  if (!isNaN(numeric)) {
+    if (typeof schema.minimum === 'number' && numeric < schema.minimum) {
+      problems.push({ pointer: at, message: `Value is less than ${schema.minimum}`, expected: `>= ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && numeric > schema.maximum) {
+      problems.push({ pointer: at, message: `Value is greater than ${schema.maximum}`, expected: `<= ${schema.maximum}` });
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && numeric <= schema.exclusiveMinimum) {
+      problems.push({ pointer: at, message: `Value must be greater than ${schema.exclusiveMinimum}`, expected: `> ${schema.exclusiveMinimum}` });
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && numeric >= schema.exclusiveMaximum) {
+      problems.push({ pointer: at, message: `Value must be less than ${schema.exclusiveMaximum}`, expected: `< ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      problems.push({ pointer: at, message: `Array has fewer than ${schema.minItems} items`, expected: `minItems ${schema.minItems}` });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      problems.push({ pointer: at, message: `Array has more than ${schema.maxItems} items`, expected: `maxItems ${schema.maxItems}` });
+    }
+    if (schema.items) {
+      value.forEach((item, i) => {
+        problems.push(...validateValue(schema.items, item, `${pointer}/${i}`, options));
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    for (const req of schema.required || []) {
+      if (value[req] === undefined) {
+        const propSchema = schema.properties?.[req];
+        problems.push({ pointer: `${pointer}/${escapePointer(req)}`, message: 'Required property is missing', expected: propSchema?.type || 'value' });
+      }
+    }
+    for (const [key, propValue] of Object.entries(value)) {
+      const propSchema = schema.properties?.[key];
+      if (propSchema) {
+        problems.push(...validateValue(propSchema, propValue, `${pointer}/${escapePointer(key)}`, options));
+      } else if (schema.additionalProperties === false) {
+        problems.push({ pointer: `${pointer}/${escapePointer(key)}`, message: 'Unknown property', expected: Object.keys(schema.properties || {}) });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        problems.push(...validateValue(schema.additionalProperties, propValue, `${pointer}/${escapePointer(key)}`, options));
+      }
+    }
+  }
+
+  return problems;
+}
+
+// Check path, query, header and body arguments of a tool call against the operation's resolved schemas
+export function validateOperationArguments(op: any, args: Record<string, any>): ValidationProblem[] {
+  const problems: ValidationProblem[] = [];
+  for (const location of ['path', 'query', 'header']) {
+    for (const def of op.paramDefs?.[location] || []) {
+      const argName = def.name.replace(/[-.]/g, '_');
+      const value = args[def.name] ?? args[argName];
+      if (value === undefined) continue;
+      problems.push(...validateValue(def.schema, value, `/${escapePointer(argName)}`, { coerceStrings: true }));
+    }
+  }
+  if (op.hasBody && args.body !== undefined && op.bodySchema) {
+    problems.push(...validateValue(op.bodySchema, args.body, '/body'));
+  }
+  return problems;
+}
+
+export function formatValidationProblems(toolName: string, problems: ValidationProblem[]): string {
+  const lines = problems.map((p) => {
+    const expected = p.expected === undefined ? '' : ` (expected: ${Array.isArray(p.expected) ? p.expected.join(', ') : p.expected})`;
+    return `- ${p.pointer}: ${p.message}${expected}`;
+  });
+  return `Invalid arguments for ${toolName}. The request was not sent.\n\n${lines.join('\n')}`;
+}
@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+
+/**
+ * Refresh the vendored OpenAPI snapshot used when the configured spec cannot be loaded.
+ * Usage: npm run spec:vendor [-- <url-or-path>]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { BUNDLED_SPEC_PATH, loadSpec } from './spec.js';
+
+dotenv.config();
+
+const DEFAULT_SPEC_URL = 'https://unity.scanpower.com/docs/api/scanpower-api-bundled.json';
+
+async function main(): Promise<void> {
+  const source = process.argv[2] || process.env.SCANPOWER_OPENAPI_SPEC || DEFAULT_SPEC_URL;
+  console.log(`📥 Loading OpenAPI spec from: ${source}`);
+
+  const spec = await loadSpec(source);
+  const operationCount = Object.values<any>(spec.paths).reduce((count, pathItem) => {
+    return count + ['get', 'post', 'put', 'delete', 'patch'].filter((m) => pathItem?.[m]).length;
+  }, 0);
+
+  fs.mkdirSync(path.dirname(BUNDLED_SPEC_PATH), { recursive: true });
+  fs.writeFileSync(BUNDLED_SPEC_PATH, JSON.stringify(spec, null, 2) + '\n');
+
+  console.log(`✅ Wrote ${operationCount} operations (spec version ${spec.info?.version ?? 'unknown'}) to ${BUNDLED_SPEC_PATH}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Failed to vendor OpenAPI spec:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findOperationId, isAsyncOperation, waitForOperation, waitOptions } from './wait.js';
+
+const fast = { timeoutMs: 1000, initialDelayMs: 1, maxDelayMs: 5 };
+
+describe('waitForOperation', () => {
+  it('polls until the operation succeeds', async () => {
+    const statuses = ['IN_PROGRESS', 'IN_PROGRESS', 'SUCCESS'];
+    const polled: Array<[number, string | undefined]> = [];
+    const outcome = await waitForOperation('op-1', async () => ({ operationStatus: statuses.shift() }), fast, async (polls, status) => {
+      polled.push([polls, status]);
+    });
+    assert.equal(outcome.operationStatus, 'SUCCESS');
+    assert.equal(outcome.timedOut, false);
+    assert.equal(outcome.polls, 3);
+    assert.deepEqual(polled, [[1, 'IN_PROGRESS'], [2, 'IN_PROGRESS'], [3, 'SUCCESS']]);
+  });
+
+  it('returns the problems of a failed operation, also under payload', async () => {
+    const problems = [{ code: 'InvalidBox', message: 'Box weight exceeds the limit', severity: 'ERROR' }];
+    const outcome = await waitForOperation('op-2', async () => ({ payload: { operationStatus: 'failed', operationProblems: problems } }), fast);
+    assert.equal(outcome.operationStatus, 'FAILED');
+    assert.deepEqual(outcome.operationProblems, problems);
+  });
+
+  it('gives up after the timeout with the last status seen', async () => {
+    const outcome = await waitForOperation('op-3', async () => ({ operationStatus: 'IN_PROGRESS' }), { ...fast, timeoutMs: 30 });
+    assert.equal(outcome.timedOut, true);
+    assert.equal(outcome.operationStatus, 'IN_PROGRESS');
+    assert.ok(outcome.polls > 0);
+  });
+});
+
+describe('wait options', () => {
+  it('takes wait_timeout, then SCANPOWER_WAIT_TIMEOUT, then the default', () => {
+    assert.equal(waitOptions({ wait_timeout: '5' }).timeoutMs, 5000);
+    process.env.SCANPOWER_WAIT_TIMEOUT = '30';
+    assert.equal(waitOptions({ wait_timeout: 0 }).timeoutMs, 30000);
+    delete process.env.SCANPOWER_WAIT_TIMEOUT;
+    assert.equal(waitOptions({}).timeoutMs, 50000);
+  });
+
+  it('recognizes asynchronous operations by the operationId they return', () => {
+    assert.equal(isAsyncOperation('createInboundPlan', { properties: { inboundPlanId: {}, operationId: {} } }), true);
+    assert.equal(isAsyncOperation('confirmPlacementOption', { properties: { payload: { properties: { operationId: {} } } } }), true);
+    assert.equal(isAsyncOperation('getInboundOperationStatus', { properties: { operationId: {} } }), false);
+    assert.equal(findOperationId({ payload: { operationId: 'op-9' } }), 'op-9');
+    assert.equal(findOperationId({ operationId: '' }), undefined);
+  });
+});
@@ -0,0 +1,107 @@
+// Waiting on asynchronous SP-API operations: poll getInboundOperationStatus until the operation finishes
+import { sleep } from './retry.js';
+
+export const STATUS_OPERATION = 'getInboundOperationStatus';
+
+export interface WaitOptions {
+  timeoutMs: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface OperationOutcome {
+  operationId: string;
+  operationStatus: string; // SUCCESS, FAILED or the last status seen (IN_PROGRESS on timeout)
+  operationProblems: any[];
+  timedOut: boolean;
+  polls: number;
+  elapsedMs: number;
+}
+
+const FINAL_STATUSES = ['SUCCESS', 'FAILED'];
+
+function envSeconds(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function waitRequested(args: Record<string, any>): boolean {
+  return args.wait === true || args.wait === 'true';
+}
+
+// Below the 60 s request timeout of MCP clients that don't extend it on progress notifications
+export const DEFAULT_WAIT_TIMEOUT_SECONDS = 50;
+
+// Timeout from wait_timeout (seconds) or SCANPOWER_WAIT_TIMEOUT, default 50 seconds
+export function waitOptions(args: Record<string, any>): WaitOptions {
+  const perCall = Number(args.wait_timeout);
+  const timeoutSeconds = args.wait_timeout !== undefined && Number.isFinite(perCall) && perCall > 0
+    ? perCall
+    : envSeconds('SCANPOWER_WAIT_TIMEOUT', DEFAULT_WAIT_TIMEOUT_SECONDS);
+  return { timeoutMs: timeoutSeconds * 1000, initialDelayMs: 1000, maxDelayMs: 10000 };
+}
+
+// An operation is asynchronous when its 2xx response carries an operationId (top level or under payload)
+export function isAsyncOperation(operationId: string, outputSchema: any): boolean {
+  if (operationId === STATUS_OPERATION || !outputSchema?.properties) return false;
+  return !!outputSchema.properties.operationId || !!outputSchema.properties.payload?.properties?.operationId;
+}
+
+export function findOperationId(data: any): string | undefined {
+  const id = data?.operationId ?? data?.payload?.operationId;
+  return typeof id === 'string' && id ? id : undefined;
+}
+
+function readStatus(data: any): { status?: string; problems: any[] } {
+  const body = data?.operationStatus === undefined && data?.payload ? data.payload : data;
+  return {
+    status: typeof body?.operationStatus === 'string' ? body.operationStatus.toUpperCase() : undefined,
+    problems: Array.isArray(body?.operationProblems) ? body.operationProblems : [],
+  };
+}
+
+/**
+ * Poll until the operation reaches SUCCESS or FAILED, backing off from 1s to
+ * 10s between polls. On timeout the last status seen is returned with
+ * timedOut set, so the caller can keep polling getInboundOperationStatus.
+ */
+export async function waitForOperation(
+  operationId: string,
+  fetchStatus: (operationId: string) => Promise<any>,
+  options: WaitOptions,
+  onPoll?: (polls: number, status: string | undefined) => Promise<void>
+): Promise<OperationOutcome> {
+  const started = Date.now();
+  let delay = options.initialDelayMs;
+  let polls = 0;
+  let last: { status?: string; problems: any[] } = { problems: [] };
+
+  while (true) {
+    const remaining = options.timeoutMs - (Date.now() - started);
+    if (remaining <= 0) break;
+    await sleep(Math.min(delay, remaining));
+    last = readStatus(await fetchStatus(operationId));
+    polls++;
+    if (onPoll) await onPoll(polls, last.status);
+    if (last.status && FINAL_STATUSES.includes(last.status)) {
+      return { operationId, operationStatus: last.status, operationProblems: last.problems, timedOut: false, polls, elapsedMs: Date.now() - started };
+    }
+    delay = Math.min(Math.round(delay * 1.5), options.maxDelayMs);
+  }
+  return {
+    operationId,
+    operationStatus: last.status || 'IN_PROGRESS',
+    operationProblems: last.problems,
+    timedOut: true,
+    polls,
+    elapsedMs: Date.now() - started,
+  };
+}
+
+export function formatOperationOutcome(outcome: OperationOutcome, statusTool: string = STATUS_OPERATION): string {
+  const seconds = (outcome.elapsedMs / 1000).toFixed(1);
+  const headline = outcome.timedOut
+    ? `Operation ${outcome.operationId} is still ${outcome.operationStatus} after ${seconds}s (${outcome.polls} polls). Call ${statusTool} with operationId "${outcome.operationId}" to keep checking.`
+    : `Operation ${outcome.operationId} finished with ${outcome.operationStatus} after ${seconds}s (${outcome.polls} polls).`;
+  return `${headline}\n${JSON.stringify({ operation: outcome }, null, 2)}`;
+}